@@ -0,0 +1,31 @@
+module.exports = {
+  root: true,
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2020,
+    sourceType: 'module',
+    ecmaFeatures: { jsx: true }
+  },
+  plugins: ['@typescript-eslint', 'react', 'react-hooks'],
+  extends: [
+    'eslint:recommended',
+    'plugin:@typescript-eslint/recommended',
+    'plugin:react/recommended',
+    'plugin:react-hooks/recommended'
+  ],
+  settings: {
+    react: { version: 'detect' }
+  },
+  env: {
+    browser: true,
+    node: true,
+    es6: true,
+    jest: true
+  },
+  rules: {
+    // The new JSX transform doesn't need React in scope
+    'react/react-in-jsx-scope': 'off',
+    // Parameters and fields spell out their types even when they have defaults
+    '@typescript-eslint/no-inferrable-types': 'off'
+  }
+};
\ No newline at end of file
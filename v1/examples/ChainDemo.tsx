@@ -265,20 +265,14 @@ export const ChainDemo: React.FC<ChainDemoProps> = ({
     const mouseX = e.clientX - rect.left;
     const mouseY = e.clientY - rect.top;
     
-    // Update the position of the dragged point
-    const point = chainRef.current.points[draggedPointRef.current];
-    point.position.x = mouseX;
-    point.position.y = mouseY;
-    
-    // Prevent velocity from accumulating during drag
-    point.velocity.x = 0;
-    point.velocity.y = 0;
+    // Drag the point kinematically, so the chain picks up its motion
+    chainRef.current.points[draggedPointRef.current].dragTo(mouseX, mouseY);
   };
   
   const handleCanvasMouseUp = () => {
     if (draggedPointRef.current !== null && chainRef.current) {
-      // Release point
-      // chainRef.current.points[draggedPointRef.current].fixed = false;
+      // Release the point; it keeps the velocity of the drag
+      chainRef.current.points[draggedPointRef.current].release();
       draggedPointRef.current = null;
     }
   };
@@ -0,0 +1,43 @@
+import { Chain } from '../core/Chain';
+import { Vector2D } from '../utils/Vector';
+import { BoundsCollider } from '../collision/BoundsCollider';
+import { createBlob } from './Blob';
+
+describe('Blob', () => {
+  it('builds a ring with an area constraint', () => {
+    const chain = new Chain(new Vector2D(0, 0));
+    const blob = createBlob(chain, 0, 0, 10, 12, { shapeMatching: true });
+    
+    expect(blob.points.length).toBe(12);
+    expect(chain.distanceConstraints.length).toBe(12);
+    expect(chain.constraints).toEqual([blob.area, blob.shape]);
+    expect(blob.getCenter().x).toBeCloseTo(0);
+    expect(Math.abs(blob.area.calculateArea())).toBeCloseTo(blob.area.restArea);
+  });
+  
+  it('needs at least three points', () => {
+    expect(() => createBlob(new Chain(new Vector2D(0, 0)), 0, 0, 10, 2)).toThrow('Invalid blob point count');
+  });
+  
+  it('keeps its area when it lands on the floor', () => {
+    const chain = new Chain(new Vector2D(0, 500));
+    const blob = createBlob(chain, 50, 50, 20, 16);
+    chain.addCollider(new BoundsCollider(0, 0, 100, 100));
+    
+    for (let i = 0; i < 120; i++) chain.update(1 / 60);
+    
+    expect(blob.getCenter().y).toBeGreaterThan(70);
+    expect(blob.area.getStrain()).toBeLessThan(0.1);
+  });
+  
+  it('inflates when the pressure rises', () => {
+    const chain = new Chain(new Vector2D(0, 0));
+    const blob = createBlob(chain, 0, 0, 10, 16, { edgeStiffness: 0.2 });
+    const restArea = Math.abs(blob.area.calculateArea());
+    
+    blob.setPressure(1.5);
+    for (let i = 0; i < 60; i++) chain.update(1 / 60);
+    
+    expect(Math.abs(blob.area.calculateArea())).toBeGreaterThan(restArea * 1.1);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { Chain } from '../core/Chain';
+import { Point } from '../core/Point';
+import { AreaConstraint } from '../constraints/AreaConstraint';
+import { ShapeMatchingConstraint } from '../constraints/ShapeMatchingConstraint';
+
+export interface BlobOptions {
+  bodySize?: number;
+  mass?: number;
+  pressure?: number;
+  areaStiffness?: number;
+  areaCompliance?: number;
+  edgeStiffness?: number;
+  shapeMatching?: boolean;
+  shapeStiffness?: number;
+}
+
+export interface SoftBodyRenderOptions {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+/**
+ * A closed ring of chain points that keeps its area, built by `createBlob`.
+ */
+export class SoftBody {
+  public chain: Chain;
+  public points: Point[];
+  public area: AreaConstraint;
+  public shape: ShapeMatchingConstraint | null;
+  
+  constructor(chain: Chain, points: Point[], area: AreaConstraint, shape: ShapeMatchingConstraint | null) {
+    this.chain = chain;
+    this.points = points;
+    this.area = area;
+    this.shape = shape;
+  }
+  
+  /**
+   * Inflates (> 1) or deflates (< 1) the body relative to its rest area.
+   */
+  setPressure(pressure: number): void {
+    this.area.pressure = pressure;
+  }
+  
+  getCenter(): { x: number, y: number } {
+    let x = 0;
+    let y = 0;
+    
+    for (const point of this.points) {
+      x += point.renderPosition.x;
+      y += point.renderPosition.y;
+    }
+    
+    return { x: x / this.points.length, y: y / this.points.length };
+  }
+  
+  /**
+   * Fills the outline as a smooth closed curve through the ring's edge midpoints.
+   */
+  render(ctx: CanvasRenderingContext2D, options: SoftBodyRenderOptions = {}): void {
+    const { fill = '#6c6', stroke, lineWidth = 2 } = options;
+    const count = this.points.length;
+    const midpoint = (i: number) => {
+      const a = this.points[i % count].renderPosition;
+      const b = this.points[(i + 1) % count].renderPosition;
+      return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    };
+    
+    const start = midpoint(0);
+    ctx.beginPath();
+    ctx.moveTo(start.x, start.y);
+    
+    for (let i = 1; i <= count; i++) {
+      const control = this.points[i % count].renderPosition;
+      const end = midpoint(i);
+      ctx.quadraticCurveTo(control.x, control.y, end.x, end.y);
+    }
+    
+    ctx.closePath();
+    ctx.fillStyle = fill;
+    ctx.fill();
+    
+    if (stroke) {
+      ctx.strokeStyle = stroke;
+      ctx.lineWidth = lineWidth;
+      ctx.stroke();
+    }
+  }
+}
+
+/**
+ * Builds a soft body: `count` points on a circle around (x, y), linked into a ring
+ * by distance constraints, with an area constraint holding its enclosed area and,
+ * optionally, shape matching back to the circle.
+ */
+export const createBlob = (
+  chain: Chain,
+  x: number,
+  y: number,
+  radius: number,
+  count: number,
+  options: BlobOptions = {}
+): SoftBody => {
+  const {
+    bodySize,
+    mass,
+    pressure = 1,
+    areaStiffness = 1,
+    areaCompliance,
+    edgeStiffness = 1,
+    shapeMatching = false,
+    shapeStiffness = 0.1
+  } = options;
+  
+  if (count < 3) {
+    throw new Error(`Invalid blob point count: ${count}`);
+  }
+  
+  const indices: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const angle = (Math.PI * 2 * i) / count;
+    indices.push(chain.addPoint(new Point(
+      x + Math.cos(angle) * radius,
+      y + Math.sin(angle) * radius,
+      { bodySize: bodySize, mass: mass }
+    )));
+  }
+  
+  for (let i = 0; i < count; i++) {
+    const edge = chain.addDistanceConstraint(indices[i], indices[(i + 1) % count]);
+    edge.stiffness = edgeStiffness;
+  }
+  
+  const points = indices.map((index) => chain.points[index]);
+  const area = chain.addConstraint(new AreaConstraint(points, {
+    pressure: pressure,
+    stiffness: areaStiffness,
+    compliance: areaCompliance
+  }));
+  const shape = shapeMatching
+    ? chain.addConstraint(new ShapeMatchingConstraint(points, { stiffness: shapeStiffness }))
+    : null;
+  
+  return new SoftBody(chain, points, area, shape);
+};
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { Chain } from '../core/Chain';
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { createCloth } from './Cloth';
+
+// Labels each point with a representative of the piece it belongs to
+const findPieces = (chain: Chain): ((point: Point) => Point) => {
+  const parent = new Map<Point, Point>();
+  const find = (point: Point): Point => {
+    const next = parent.get(point);
+    if (!next || next === point) return point;
+    const root = find(next);
+    parent.set(point, root);
+    return root;
+  };
+  
+  for (const point of chain.points) parent.set(point, point);
+  for (const constraint of chain.distanceConstraints) {
+    parent.set(find(constraint.point1), find(constraint.point2));
+  }
+  
+  return find;
+};
+
+const countPieces = (chain: Chain): number => new Set(chain.points.map(findPieces(chain))).size;
+
+describe('createCloth', () => {
+  it('links neighbours, diagonals and points two apart', () => {
+    const chain = new Chain(new Vector2D(0, 0));
+    const cloth = createCloth(chain, 0, 0, 4, 3, 10);
+    
+    expect(chain.points.length).toBe(12);
+    // 17 structural, 12 shear and 4 + 6 bend links
+    expect(chain.distanceConstraints.length).toBe(17 + 12 + 10);
+    expect(cloth.getTriangles().length).toBe(12);
+    expect(cloth.getPoint(0, 0).fixed).toBe(true);
+    expect(() => cloth.getPoint(4, 0)).toThrow('Invalid cloth cell: 4, 0');
+  });
+  
+  it('separates into pieces when it tears', () => {
+    const chain = new Chain(new Vector2D(0, 98));
+    const cloth = createCloth(chain, 0, 0, 10, 10, 10, { tearThreshold: 0.3 });
+    const dragged = chain.points[55];
+    
+    expect(countPieces(chain)).toBe(1);
+    
+    for (let frame = 0; frame < 120; frame++) {
+      dragged.dragTo(dragged.position.x, dragged.position.y + 4);
+      chain.update(1 / 60);
+    }
+    
+    expect(countPieces(chain)).toBeGreaterThan(1);
+    const pieceOf = findPieces(chain);
+    expect(pieceOf(dragged)).not.toBe(pieceOf(cloth.getPoint(0, 0)));
+    // The pieces keep most of their triangles
+    expect(cloth.getTriangles().length).toBeGreaterThan(81);
+  });
+});
\ No newline at end of file
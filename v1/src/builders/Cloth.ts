@@ -0,0 +1,246 @@
+import { Chain } from '../core/Chain';
+import { Point } from '../core/Point';
+import { DistanceConstraint } from '../constraints/DistanceConstraint';
+
+export type ClothPin = 'top' | 'left' | 'corners' | 'none';
+
+export interface ClothOptions {
+  pin?: ClothPin;
+  pinEvery?: number;
+  bodySize?: number;
+  mass?: number;
+  structuralStiffness?: number;
+  shearStiffness?: number;
+  bendStiffness?: number;
+  shear?: boolean;
+  bend?: boolean;
+  compliance?: number;
+  tearThreshold?: number;
+}
+
+export interface ClothRenderOptions {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+/**
+ * A rectangular grid of chain points built by `createCloth`. Keeps the grid
+ * layout so the cloth can be drawn as filled triangles; triangles whose edges
+ * have torn are left out.
+ */
+export class ClothMesh {
+  public chain: Chain;
+  public columns: number;
+  public rows: number;
+  public points: Point[][];
+  // Structural links, by the point they start from; right and down neighbours
+  public horizontal: DistanceConstraint[][];
+  public vertical: DistanceConstraint[][];
+  
+  constructor(
+    chain: Chain,
+    columns: number,
+    rows: number,
+    points: Point[][],
+    horizontal: DistanceConstraint[][],
+    vertical: DistanceConstraint[][]
+  ) {
+    this.chain = chain;
+    this.columns = columns;
+    this.rows = rows;
+    this.points = points;
+    this.horizontal = horizontal;
+    this.vertical = vertical;
+  }
+  
+  getPoint(column: number, row: number): Point {
+    const point = this.points[row] && this.points[row][column];
+    
+    if (!point) {
+      throw new Error(`Invalid cloth cell: ${column}, ${row}`);
+    }
+    
+    return point;
+  }
+  
+  /**
+   * Triangles that are still intact, two per grid cell, as point triples.
+   */
+  getTriangles(): [Point, Point, Point][] {
+    const triangles: [Point, Point, Point][] = [];
+    // Links may also have been removed from the chain by topology edits
+    const live = new Set(this.chain.distanceConstraints);
+    const isIntact = (constraint: DistanceConstraint) => !constraint.broken && live.has(constraint);
+    
+    for (let row = 0; row < this.rows - 1; row++) {
+      for (let column = 0; column < this.columns - 1; column++) {
+        const topLeft = this.getPoint(column, row);
+        const topRight = this.getPoint(column + 1, row);
+        const bottomLeft = this.getPoint(column, row + 1);
+        const bottomRight = this.getPoint(column + 1, row + 1);
+        
+        // Split along the top-left to bottom-right diagonal
+        if (isIntact(this.horizontal[row][column]) && isIntact(this.vertical[row][column + 1])) {
+          triangles.push([topLeft, topRight, bottomRight]);
+        }
+        if (isIntact(this.vertical[row][column]) && isIntact(this.horizontal[row + 1][column])) {
+          triangles.push([topLeft, bottomRight, bottomLeft]);
+        }
+      }
+    }
+    
+    return triangles;
+  }
+  
+  render(ctx: CanvasRenderingContext2D, options: ClothRenderOptions = {}): void {
+    const { fill = '#c44', stroke, lineWidth = 1 } = options;
+    
+    ctx.fillStyle = fill;
+    if (stroke) {
+      ctx.strokeStyle = stroke;
+      ctx.lineWidth = lineWidth;
+    }
+    
+    for (const [a, b, c] of this.getTriangles()) {
+      ctx.beginPath();
+      ctx.moveTo(a.renderPosition.x, a.renderPosition.y);
+      ctx.lineTo(b.renderPosition.x, b.renderPosition.y);
+      ctx.lineTo(c.renderPosition.x, c.renderPosition.y);
+      ctx.closePath();
+      ctx.fill();
+      if (stroke) ctx.stroke();
+    }
+  }
+}
+
+/**
+ * Builds a `columns` × `rows` cloth with its top-left corner at (x, y). Neighbours
+ * are linked by structural constraints, diagonals by shear constraints, and points
+ * two apart by bending constraints. With `tearThreshold` every link can tear, and
+ * shear and bending links also tear with any structural link they cross, so a cut
+ * separates the cloth into pieces.
+ */
+export const createCloth = (
+  chain: Chain,
+  x: number,
+  y: number,
+  columns: number,
+  rows: number,
+  spacing: number,
+  options: ClothOptions = {}
+): ClothMesh => {
+  const {
+    pin = 'top',
+    pinEvery = 1,
+    bodySize,
+    mass,
+    structuralStiffness = 1,
+    shearStiffness = 0.5,
+    bendStiffness = 0.2,
+    shear = true,
+    bend = true,
+    compliance,
+    tearThreshold
+  } = options;
+  
+  if (columns < 2 || rows < 2) {
+    throw new Error(`Invalid cloth size: ${columns} x ${rows}`);
+  }
+  
+  const isPinned = (column: number, row: number): boolean => {
+    switch (pin) {
+      case 'top':
+        return row === 0 && (column % pinEvery === 0 || column === columns - 1);
+      case 'left':
+        return column === 0 && (row % pinEvery === 0 || row === rows - 1);
+      case 'corners':
+        return row === 0 && (column === 0 || column === columns - 1);
+      default:
+        return false;
+    }
+  };
+  
+  const link = (a: number, b: number, distance: number, stiffness: number, breakThreshold?: number): DistanceConstraint => {
+    const constraint = chain.addDistanceConstraint(a, b, distance, {
+      compliance: compliance,
+      breakThreshold: breakThreshold
+    });
+    constraint.stiffness = stiffness;
+    return constraint;
+  };
+  
+  // A link across torn structural links would keep holding the pieces together
+  const crossLink = (a: number, b: number, distance: number, stiffness: number, crossed: DistanceConstraint[]): void => {
+    const constraint = link(a, b, distance, stiffness, tearThreshold);
+    if (tearThreshold === undefined) return;
+    
+    const getStrain = constraint.getStrain.bind(constraint);
+    constraint.getStrain = () => crossed.some((structural) => structural.broken) ? Infinity : getStrain();
+  };
+  
+  const indices: number[][] = [];
+  for (let row = 0; row < rows; row++) {
+    indices.push([]);
+    for (let column = 0; column < columns; column++) {
+      indices[row].push(chain.addPoint(new Point(x + column * spacing, y + row * spacing, {
+        fixed: isPinned(column, row),
+        bodySize: bodySize,
+        mass: mass
+      })));
+    }
+  }
+  
+  const horizontal: DistanceConstraint[][] = [];
+  const vertical: DistanceConstraint[][] = [];
+  for (let row = 0; row < rows; row++) {
+    horizontal.push([]);
+    vertical.push([]);
+    for (let column = 0; column < columns; column++) {
+      if (column < columns - 1) {
+        horizontal[row].push(link(indices[row][column], indices[row][column + 1], spacing, structuralStiffness, tearThreshold));
+      }
+      if (row < rows - 1) {
+        vertical[row].push(link(indices[row][column], indices[row + 1][column], spacing, structuralStiffness, tearThreshold));
+      }
+    }
+  }
+  
+  if (shear) {
+    const diagonal = spacing * Math.SQRT2;
+    for (let row = 0; row < rows - 1; row++) {
+      for (let column = 0; column < columns - 1; column++) {
+        const cell = [
+          horizontal[row][column],
+          horizontal[row + 1][column],
+          vertical[row][column],
+          vertical[row][column + 1]
+        ];
+        crossLink(indices[row][column], indices[row + 1][column + 1], diagonal, shearStiffness, cell);
+        crossLink(indices[row][column + 1], indices[row + 1][column], diagonal, shearStiffness, cell);
+      }
+    }
+  }
+  
+  if (bend) {
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        if (column < columns - 2) {
+          crossLink(indices[row][column], indices[row][column + 2], spacing * 2, bendStiffness, [
+            horizontal[row][column],
+            horizontal[row][column + 1]
+          ]);
+        }
+        if (row < rows - 2) {
+          crossLink(indices[row][column], indices[row + 2][column], spacing * 2, bendStiffness, [
+            vertical[row][column],
+            vertical[row + 1][column]
+          ]);
+        }
+      }
+    }
+  }
+  
+  const points = indices.map((row) => row.map((index) => chain.points[index]));
+  return new ClothMesh(chain, columns, rows, points, horizontal, vertical);
+};
\ No newline at end of file
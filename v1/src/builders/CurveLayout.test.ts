@@ -0,0 +1,45 @@
+import { Chain } from '../core/Chain';
+import { Equations } from '../parametric/Equations';
+import { Vector2D } from '../utils/Vector';
+import { createChainAlongCurve } from './CurveLayout';
+
+describe('CurveLayout', () => {
+  it('spaces points evenly by arc length', () => {
+    const chain = new Chain(new Vector2D(0, 0));
+    const indices = createChainAlongCurve(chain, Equations.circle(0, 0, 10), 5, { tEnd: 0.5 });
+    const points = indices.map((index) => chain.points[index]);
+    
+    expect(indices).toEqual([0, 1, 2, 3, 4]);
+    expect(points[0].fixed).toBe(true);
+    expect(points[1].fixed).toBe(false);
+    
+    for (const point of points) {
+      expect(point.position.length()).toBeCloseTo(10);
+    }
+    
+    const lengths = chain.distanceConstraints.map((constraint) => constraint.distance);
+    expect(lengths.length).toBe(4);
+    for (const length of lengths) {
+      expect(length).toBeCloseTo(lengths[0], 1);
+    }
+  });
+  
+  it('rests its joints at the curve shape', () => {
+    const chain = new Chain(new Vector2D(0, 0));
+    createChainAlongCurve(chain, Equations.circle(0, 0, 10), 6, { jointMode: 'spring', tEnd: 0.5 });
+    
+    expect(chain.angleConstraints.length).toBe(0);
+    expect(chain.angularSprings.length).toBe(4);
+    
+    for (const spring of chain.angularSprings) {
+      expect(spring.getStrain()).toBeCloseTo(0);
+    }
+  });
+  
+  it('adds nothing for an empty layout', () => {
+    const chain = new Chain(new Vector2D(0, 0));
+    
+    expect(createChainAlongCurve(chain, Equations.circle(0, 0, 10), 0)).toEqual([]);
+    expect(chain.points.length).toBe(0);
+  });
+});
\ No newline at end of file
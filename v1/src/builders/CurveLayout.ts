@@ -0,0 +1,79 @@
+import { Chain } from '../core/Chain';
+import { Point } from '../core/Point';
+import { ParametricCurve } from '../parametric/Equations';
+import { addJoint, JointOptions } from './Joints';
+
+export interface CurveLayoutOptions extends JointOptions {
+  tStart?: number;
+  tEnd?: number;
+  fixedStart?: boolean;
+  bodySize?: number;
+  samples?: number;
+}
+
+/**
+ * Lays `count` points out along `curve`, evenly spaced by arc length, and links
+ * them like `Chain.createChain`. Joints hold the curve's shape as their rest pose.
+ * Returns the indices of the new points.
+ */
+export const createChainAlongCurve = (
+  chain: Chain,
+  curve: ParametricCurve,
+  count: number,
+  options: CurveLayoutOptions = {}
+): number[] => {
+  const {
+    tStart = 0,
+    tEnd = 1,
+    fixedStart = true,
+    bodySize,
+    samples = 32
+  } = options;
+  
+  if (count < 1) return [];
+  
+  // Cumulative arc length over a dense sampling of the curve
+  const sampleCount = Math.max(count * samples, 2);
+  const ts: number[] = [];
+  const lengths: number[] = [];
+  let previous = curve.getPointAt(tStart);
+  let total = 0;
+  
+  for (let i = 0; i < sampleCount; i++) {
+    const t = tStart + (tEnd - tStart) * (i / (sampleCount - 1));
+    const position = curve.getPointAt(t);
+    total += position.distance(previous);
+    ts.push(t);
+    lengths.push(total);
+    previous = position;
+  }
+  
+  const indices: number[] = [];
+  let sample = 0;
+  
+  for (let i = 0; i < count; i++) {
+    const target = count > 1 ? (total * i) / (count - 1) : 0;
+    while (sample < sampleCount - 2 && lengths[sample + 1] < target) sample++;
+    
+    // Interpolate t between the two samples around the target length
+    const span = lengths[sample + 1] - lengths[sample];
+    const f = span > 0 ? Math.min(Math.max((target - lengths[sample]) / span, 0), 1) : 0;
+    const position = curve.getPointAt(ts[sample] + (ts[sample + 1] - ts[sample]) * f);
+    
+    const index = chain.addPoint(new Point(position.x, position.y, {
+      fixed: fixedStart && i === 0,
+      bodySize: bodySize
+    }));
+    
+    if (i >= 1) {
+      chain.addDistanceConstraint(indices[i - 1], index);
+    }
+    if (i >= 2) {
+      addJoint(chain, indices[i - 2], indices[i - 1], index, options);
+    }
+    
+    indices.push(index);
+  }
+  
+  return indices;
+};
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { Chain } from '../core/Chain';
+import { signedAngle } from '../utils/Angle';
+
+export type JointMode = 'limit' | 'spring' | 'none';
+
+export interface JointOptions {
+  jointMode?: JointMode;
+  flexibility?: number;
+  jointStiffness?: number;
+  springDamping?: number;
+}
+
+/**
+ * Adds a joint at `p2Index` that holds the angle the three points are currently
+ * laid out at: an unsigned angle limit of ±`flexibility` around it, or an angular
+ * spring resting at it.
+ */
+export const addJoint = (
+  chain: Chain,
+  p1Index: number,
+  p2Index: number,
+  p3Index: number,
+  options: JointOptions = {}
+): void => {
+  const {
+    jointMode = 'limit',
+    flexibility = Math.PI / 8,
+    springDamping = 0
+  } = options;
+  
+  if (jointMode === 'none') return;
+  
+  if (jointMode === 'spring') {
+    const stiffness = options.jointStiffness !== undefined ? options.jointStiffness : 0.1;
+    chain.addAngularSpring(p1Index, p2Index, p3Index, undefined, stiffness, springDamping);
+    return;
+  }
+  
+  const p1 = chain.points[p1Index].position;
+  const p2 = chain.points[p2Index].position;
+  const p3 = chain.points[p3Index].position;
+  const angle = Math.abs(signedAngle(p1.x - p2.x, p1.y - p2.y, p3.x - p2.x, p3.y - p2.y));
+  
+  const constraint = chain.addAngleConstraint(
+    p1Index,
+    p2Index,
+    p3Index,
+    Math.max(0, angle - flexibility),
+    Math.min(Math.PI, angle + flexibility)
+  );
+  if (options.jointStiffness !== undefined) {
+    constraint.stiffness = options.jointStiffness;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { Chain } from '../core/Chain';
+import { Vector2D } from '../utils/Vector';
+import { createSkeleton, createStar, createTree } from './Skeleton';
+
+describe('Skeleton', () => {
+  it('joins each limb to its parent at the branch point', () => {
+    const chain = new Chain(new Vector2D(0, 0));
+    const [trunk] = createSkeleton(chain, 0, 0, [{
+      count: 2,
+      segmentLength: 10,
+      children: [
+        { count: 1, segmentLength: 5, angle: -0.5 },
+        { count: 1, segmentLength: 5, angle: 0.5 }
+      ]
+    }]);
+    
+    expect(chain.points.length).toBe(5);
+    expect(chain.points[0].fixed).toBe(true);
+    expect(trunk.points).toEqual([0, 1, 2]);
+    expect(chain.distanceConstraints.length).toBe(4);
+    
+    // The trunk grows upwards by default
+    expect(chain.points[2].position.y).toBeCloseTo(-20);
+    
+    const tip = chain.points[2];
+    const [left, right] = trunk.children.map((branch) => chain.points[branch.points[1]]);
+    const joints = chain.angleConstraints.filter((joint) => joint.point2 === tip);
+    
+    // One joint per limb against the trunk, and one between the siblings
+    expect(joints.length).toBe(3);
+    expect(joints.filter((joint) => joint.point1 === chain.points[1]).map((joint) => joint.point3))
+      .toEqual([left, right]);
+    expect(joints.some((joint) => joint.point1 === left && joint.point3 === right)).toBe(true);
+  });
+  
+  it('builds a tree with shorter limbs at every level', () => {
+    const chain = new Chain(new Vector2D(0, 0));
+    const tree = createTree(chain, 0, 0, { depth: 3, branches: 2, segments: 2, segmentLength: 20, lengthDecay: 0.5 });
+    
+    // 1 + 2 + 4 limbs of 2 segments, plus the root
+    expect(chain.points.length).toBe(15);
+    expect(tree.children.length).toBe(2);
+    expect(tree.children[0].children.length).toBe(2);
+    expect(tree.children[0].children[0].children.length).toBe(0);
+    
+    const leaf = tree.children[0].children[0].points;
+    const length = chain.points[leaf[1]].position.distance(chain.points[leaf[2]].position);
+    expect(length).toBeCloseTo(5);
+  });
+  
+  it('closes the ring of joints around the centre of a star', () => {
+    const chain = new Chain(new Vector2D(0, 0));
+    const arms = createStar(chain, 0, 0, 4, 2, 10, { fixedRoot: false });
+    const centre = chain.points[0];
+    
+    expect(arms.length).toBe(4);
+    expect(centre.fixed).toBe(false);
+    expect(chain.angleConstraints.filter((joint) => joint.point2 === centre).length).toBe(4);
+    
+    // Arms are spread evenly and start out within their joint limits
+    const first = chain.points[arms[0].points[1]].position;
+    const second = chain.points[arms[1].points[1]].position;
+    expect(first.distance(second)).toBeCloseTo(Math.sqrt(200));
+    expect(chain.angleConstraints.every((joint) => joint.getStrain() === 0)).toBe(true);
+  });
+});
\ No newline at end of file
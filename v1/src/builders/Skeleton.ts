@@ -0,0 +1,199 @@
+import { Chain } from '../core/Chain';
+import { Point } from '../core/Point';
+import { addJoint, JointOptions } from './Joints';
+
+/**
+ * One limb of a skeleton. `angle` is measured from the direction of the parent
+ * limb (or from the skeleton's `direction` at the root); `curl` turns every
+ * following segment a little further, for tentacles and antlers.
+ */
+export interface BranchSpec {
+  count: number;
+  segmentLength: number;
+  angle?: number;
+  curl?: number;
+  bodySize?: number;
+  children?: BranchSpec[];
+}
+
+export interface SkeletonOptions extends JointOptions {
+  direction?: number;
+  fixedRoot?: boolean;
+  bodySize?: number;
+}
+
+/**
+ * Point indices of a built limb. `points[0]` is the point it is attached to.
+ */
+export interface SkeletonBranch {
+  points: number[];
+  children: SkeletonBranch[];
+}
+
+export interface TreeOptions extends SkeletonOptions {
+  depth?: number;
+  branches?: number;
+  spread?: number;
+  segments?: number;
+  segmentLength?: number;
+  lengthDecay?: number;
+}
+
+export interface StarOptions extends SkeletonOptions {
+  curl?: number;
+}
+
+/**
+ * Builds a branching skeleton rooted at (x, y). Every limb is joined to its
+ * parent limb at the branch point, and sibling limbs are joined to each other so
+ * they keep their spread.
+ */
+export const createSkeleton = (
+  chain: Chain,
+  x: number,
+  y: number,
+  branches: BranchSpec[],
+  options: SkeletonOptions = {}
+): SkeletonBranch[] => {
+  const { direction = -Math.PI / 2, fixedRoot = true, bodySize } = options;
+  const root = chain.addPoint(new Point(x, y, { fixed: fixedRoot, bodySize: bodySize }));
+  
+  return buildBranches(chain, root, -1, direction, branches, options);
+};
+
+/**
+ * Builds a tree of `depth` levels where every limb ends in `branches` smaller
+ * limbs fanned out over `spread` radians.
+ */
+export const createTree = (
+  chain: Chain,
+  x: number,
+  y: number,
+  options: TreeOptions = {}
+): SkeletonBranch => {
+  const {
+    depth = 3,
+    branches = 2,
+    spread = Math.PI / 2,
+    segments = 3,
+    segmentLength = 20,
+    lengthDecay = 0.7
+  } = options;
+  
+  const describe = (level: number, angle: number): BranchSpec => {
+    const children: BranchSpec[] = [];
+    
+    if (level < depth - 1) {
+      for (let i = 0; i < branches; i++) {
+        const offset = branches > 1 ? spread * (i / (branches - 1) - 0.5) : 0;
+        children.push(describe(level + 1, offset));
+      }
+    }
+    
+    return {
+      count: segments,
+      segmentLength: segmentLength * Math.pow(lengthDecay, level),
+      angle: angle,
+      children: children
+    };
+  };
+  
+  return createSkeleton(chain, x, y, [describe(0, 0)], options)[0];
+};
+
+/**
+ * Builds `arms` limbs radiating evenly from a centre point, like a starfish or
+ * a cluster of tentacles.
+ */
+export const createStar = (
+  chain: Chain,
+  x: number,
+  y: number,
+  arms: number,
+  count: number,
+  segmentLength: number,
+  options: StarOptions = {}
+): SkeletonBranch[] => {
+  const branches: BranchSpec[] = [];
+  
+  for (let i = 0; i < arms; i++) {
+    branches.push({
+      count: count,
+      segmentLength: segmentLength,
+      angle: (Math.PI * 2 * i) / arms,
+      curl: options.curl
+    });
+  }
+  
+  return createSkeleton(chain, x, y, branches, options);
+};
+
+const buildBranches = (
+  chain: Chain,
+  from: number,
+  parent: number,
+  direction: number,
+  specs: BranchSpec[],
+  options: SkeletonOptions
+): SkeletonBranch[] => {
+  const built = specs.map((spec) => buildBranch(chain, from, parent, direction, spec, options));
+  
+  // Join neighbouring siblings around the branch point. Around a root with three or
+  // more limbs the ring is closed so the limbs cannot fold onto each other.
+  const order = specs
+    .map((spec, i) => ({ angle: spec.angle || 0, branch: built[i] }))
+    .filter((entry) => entry.branch.points.length > 1)
+    .sort((a, b) => a.angle - b.angle);
+  
+  for (let i = 0; i < order.length - 1; i++) {
+    addJoint(chain, order[i].branch.points[1], from, order[i + 1].branch.points[1], options);
+  }
+  if (parent === -1 && order.length > 2) {
+    addJoint(chain, order[order.length - 1].branch.points[1], from, order[0].branch.points[1], options);
+  }
+  
+  return built;
+};
+
+const buildBranch = (
+  chain: Chain,
+  from: number,
+  parent: number,
+  direction: number,
+  spec: BranchSpec,
+  options: SkeletonOptions
+): SkeletonBranch => {
+  const points = [from];
+  const bodySize = spec.bodySize !== undefined ? spec.bodySize : options.bodySize;
+  const curl = spec.curl || 0;
+  let heading = direction + (spec.angle || 0);
+  
+  for (let i = 0; i < spec.count; i++) {
+    if (i > 0) heading += curl;
+    
+    const previous = chain.points[points[points.length - 1]].position;
+    const index = chain.addPoint(new Point(
+      previous.x + Math.cos(heading) * spec.segmentLength,
+      previous.y + Math.sin(heading) * spec.segmentLength,
+      { bodySize: bodySize }
+    ));
+    
+    chain.addDistanceConstraint(points[points.length - 1], index, spec.segmentLength);
+    
+    // The first joint of a limb sits on the branch point and bends against the parent limb
+    const before = points.length >= 2 ? points[points.length - 2] : parent;
+    if (before !== -1) {
+      addJoint(chain, before, points[points.length - 1], index, options);
+    }
+    
+    points.push(index);
+  }
+  
+  const tip = points[points.length - 1];
+  const tipParent = points.length >= 2 ? points[points.length - 2] : parent;
+  const children = spec.children && spec.children.length > 0
+    ? buildBranches(chain, tip, tipParent, heading, spec.children, options)
+    : [];
+  
+  return { points: points, children: children };
+};
\ No newline at end of file
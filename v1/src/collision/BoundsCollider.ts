@@ -0,0 +1,54 @@
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { Collider, ColliderOptions } from './Collider';
+
+/**
+ * Axis-aligned rectangle that keeps points inside it, such as the canvas edges.
+ */
+export class BoundsCollider implements Collider {
+  public enabled: boolean;
+  public restitution: number;
+  public friction: number;
+  public x: number;
+  public y: number;
+  public width: number;
+  public height: number;
+  
+  constructor(x: number, y: number, width: number, height: number, options: ColliderOptions = {}) {
+    this.enabled = true;
+    this.restitution = options.restitution || 0;
+    this.friction = options.friction || 0;
+    this.x = x;
+    this.y = y;
+    this.width = width;
+    this.height = height;
+  }
+  
+  collide(point: Point): Vector2D | null {
+    const radius = point.bodySize;
+    const minX = this.x + radius;
+    const maxX = this.x + this.width - radius;
+    const minY = this.y + radius;
+    const maxY = this.y + this.height - radius;
+    const normal = new Vector2D(0, 0);
+    
+    if (point.position.x < minX) {
+      point.position.x = minX;
+      normal.x = 1;
+    } else if (point.position.x > maxX) {
+      point.position.x = maxX;
+      normal.x = -1;
+    }
+    
+    if (point.position.y < minY) {
+      point.position.y = minY;
+      normal.y = 1;
+    } else if (point.position.y > maxY) {
+      point.position.y = maxY;
+      normal.y = -1;
+    }
+    
+    if (normal.x === 0 && normal.y === 0) return null;
+    return normal.normalize();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { Collider, ColliderOptions } from './Collider';
+
+/**
+ * Solid axis-aligned rectangle obstacle.
+ */
+export class BoxCollider implements Collider {
+  public enabled: boolean;
+  public restitution: number;
+  public friction: number;
+  public x: number;
+  public y: number;
+  public width: number;
+  public height: number;
+  
+  constructor(x: number, y: number, width: number, height: number, options: ColliderOptions = {}) {
+    this.enabled = true;
+    this.restitution = options.restitution || 0;
+    this.friction = options.friction || 0;
+    this.x = x;
+    this.y = y;
+    this.width = width;
+    this.height = height;
+  }
+  
+  collide(point: Point): Vector2D | null {
+    const radius = point.bodySize;
+    const left = this.x - radius;
+    const right = this.x + this.width + radius;
+    const top = this.y - radius;
+    const bottom = this.y + this.height + radius;
+    const { x, y } = point.position;
+    
+    if (x <= left || x >= right || y <= top || y >= bottom) return null;
+    
+    // Push out through the closest face
+    const toLeft = x - left;
+    const toRight = right - x;
+    const toTop = y - top;
+    const toBottom = bottom - y;
+    const min = Math.min(toLeft, toRight, toTop, toBottom);
+    
+    if (min === toLeft) {
+      point.position.x = left;
+      return new Vector2D(-1, 0);
+    }
+    if (min === toRight) {
+      point.position.x = right;
+      return new Vector2D(1, 0);
+    }
+    if (min === toTop) {
+      point.position.y = top;
+      return new Vector2D(0, -1);
+    }
+    point.position.y = bottom;
+    return new Vector2D(0, 1);
+  }
+}
\ No newline at end of file
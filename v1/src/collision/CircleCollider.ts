@@ -0,0 +1,43 @@
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { Collider, ColliderOptions } from './Collider';
+
+/**
+ * Solid circular obstacle.
+ */
+export class CircleCollider implements Collider {
+  public enabled: boolean;
+  public restitution: number;
+  public friction: number;
+  public position: Vector2D;
+  public radius: number;
+  
+  constructor(x: number, y: number, radius: number, options: ColliderOptions = {}) {
+    this.enabled = true;
+    this.restitution = options.restitution || 0;
+    this.friction = options.friction || 0;
+    this.position = new Vector2D(x, y);
+    this.radius = radius;
+  }
+  
+  collide(point: Point): Vector2D | null {
+    const minDistance = this.radius + point.bodySize;
+    const dx = point.position.x - this.position.x;
+    const dy = point.position.y - this.position.y;
+    const distanceSq = dx * dx + dy * dy;
+    
+    if (distanceSq >= minDistance * minDistance) return null;
+    
+    const distance = Math.sqrt(distanceSq);
+    
+    // A point exactly at the center is pushed upwards
+    const normal = distance === 0 ? new Vector2D(0, -1) : new Vector2D(dx / distance, dy / distance);
+    
+    point.position.set(
+      this.position.x + normal.x * minDistance,
+      this.position.y + normal.y * minDistance
+    );
+    
+    return normal;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { Chain } from '../core/Chain';
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { BoundsCollider } from './BoundsCollider';
+import { BoxCollider } from './BoxCollider';
+import { CircleCollider } from './CircleCollider';
+import { PolylineCollider } from './PolylineCollider';
+
+describe('colliders', () => {
+  it('keeps points inside bounds', () => {
+    const point = new Point(105, 50, { bodySize: 2 });
+    const normal = new BoundsCollider(0, 0, 100, 100).collide(point);
+    
+    expect(point.position.x).toBe(98);
+    expect(normal && normal.x).toBe(-1);
+  });
+  
+  it('pushes points out of a box through the closest face', () => {
+    const point = new Point(5, 1, { bodySize: 1 });
+    const normal = new BoxCollider(0, 0, 10, 10).collide(point);
+    
+    expect(point.position.y).toBe(-1);
+    expect(normal && normal.y).toBe(-1);
+    expect(new BoxCollider(0, 0, 10, 10).collide(new Point(20, 20))).toBeNull();
+  });
+  
+  it('pushes points out of a circle along the radius', () => {
+    const point = new Point(3, 0, { bodySize: 1 });
+    new CircleCollider(0, 0, 5).collide(point);
+    
+    expect(point.position.x).toBeCloseTo(6);
+    expect(point.position.y).toBeCloseTo(0);
+  });
+  
+  it('moves a point that crossed a polyline back to its side', () => {
+    const ground = new PolylineCollider([new Vector2D(0, 10), new Vector2D(100, 10)]);
+    const point = new Point(50, 5, { bodySize: 1 });
+    point.prevPosition.set(50, 5);
+    point.position.set(50, 20);
+    const normal = ground.collide(point);
+    
+    expect(point.position.y).toBeCloseTo(9);
+    expect(normal && normal.y).toBeCloseTo(-1);
+  });
+  
+  it('stops a falling chain on the ground and bounces with restitution', () => {
+    const chain = new Chain(new Vector2D(0, 100));
+    const point = chain.points[chain.addPoint(new Point(50, 0, { bodySize: 1 }))];
+    chain.addCollider(new BoxCollider(0, 10, 100, 10, { restitution: 0.5 }));
+    
+    let bounced = false;
+    for (let i = 0; i < 120; i++) {
+      chain.update(1 / 60);
+      expect(point.position.y).toBeLessThanOrEqual(9 + 1e-9);
+      bounced = bounced || point.velocity.y < 0;
+    }
+    expect(bounced).toBe(true);
+  });
+});
\ No newline at end of file
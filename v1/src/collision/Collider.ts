@@ -0,0 +1,48 @@
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+
+export interface ColliderOptions {
+  restitution?: number;
+  friction?: number;
+}
+
+/**
+ * A static shape that points are kept out of (or, for bounds, inside of).
+ * `collide` moves an overlapping point to the surface and returns the contact
+ * normal pointing away from the shape, or null when there is no contact.
+ */
+export interface Collider {
+  enabled: boolean;
+  restitution: number;
+  friction: number;
+  collide(point: Point): Vector2D | null;
+}
+
+export interface Contact {
+  point: Point;
+  normal: Vector2D;
+  collider: Collider;
+  approachSpeed: number;
+}
+
+/**
+ * Adjusts the velocity of a point after it touched a collider: the normal
+ * component bounces back with `restitution` of the approach speed, and `friction`
+ * (0-1) removes that fraction of the tangential component.
+ */
+export const applyContactResponse = (contact: Contact): void => {
+  const { point, normal, collider, approachSpeed } = contact;
+  if (point.inverseMass === 0) return;
+  
+  const velocity = point.velocity;
+  const normalSpeed = velocity.dot(normal);
+  const tangentX = velocity.x - normal.x * normalSpeed;
+  const tangentY = velocity.y - normal.y * normalSpeed;
+  const friction = 1 - Math.max(0, Math.min(1, collider.friction));
+  const bounce = Math.max(normalSpeed, approachSpeed * collider.restitution);
+  
+  velocity.set(
+    tangentX * friction + normal.x * bounce,
+    tangentY * friction + normal.y * bounce
+  );
+};
\ No newline at end of file
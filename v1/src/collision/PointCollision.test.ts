@@ -0,0 +1,31 @@
+import { Point } from '../core/Point';
+import { canCollide, resolvePointCollision } from './PointCollision';
+
+describe('point collisions', () => {
+  it('filters pairs by group and mask', () => {
+    const a = new Point(0, 0, { collisionGroup: 1, collisionMask: 2 });
+    const b = new Point(0, 0, { collisionGroup: 2, collisionMask: 1 });
+    const c = new Point(0, 0, { collisionGroup: 2, collisionMask: 2 });
+    
+    expect(canCollide(a, b)).toBe(true);
+    expect(canCollide(a, c)).toBe(false);
+  });
+  
+  it('pushes overlapping points apart by inverse mass', () => {
+    const light = new Point(0, 0, { bodySize: 1 });
+    const heavy = new Point(1, 0, { bodySize: 1, mass: 3 });
+    
+    expect(resolvePointCollision(light, heavy)).toBe(true);
+    expect(heavy.position.x - light.position.x).toBeCloseTo(2);
+    expect(light.position.x).toBeCloseTo(-0.75);
+    expect(heavy.position.x).toBeCloseTo(1.25);
+  });
+  
+  it('ignores points that only touch', () => {
+    const a = new Point(0, 0, { bodySize: 1 });
+    const b = new Point(2, 0, { bodySize: 1 });
+    
+    expect(resolvePointCollision(a, b)).toBe(false);
+    expect(b.position.x).toBe(2);
+  });
+});
\ No newline at end of file
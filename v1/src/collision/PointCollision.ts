@@ -0,0 +1,41 @@
+import { Point } from '../core/Point';
+
+/**
+ * Two points collide when each one's group is included in the other's mask.
+ */
+export const canCollide = (a: Point, b: Point): boolean => {
+  return (a.collisionGroup & b.collisionMask) !== 0 && (b.collisionGroup & a.collisionMask) !== 0;
+};
+
+/**
+ * Pushes two overlapping points apart, treating them as circles of `bodySize`
+ * radius. Corrections are distributed by inverse mass. Returns whether they overlapped.
+ */
+export const resolvePointCollision = (a: Point, b: Point): boolean => {
+  const minDistance = a.bodySize + b.bodySize;
+  const dx = b.position.x - a.position.x;
+  const dy = b.position.y - a.position.y;
+  const distanceSq = dx * dx + dy * dy;
+  
+  if (distanceSq >= minDistance * minDistance) return false;
+  
+  const w1 = a.inverseMass;
+  const w2 = b.inverseMass;
+  const wSum = w1 + w2;
+  
+  if (wSum === 0) return false;
+  
+  const distance = Math.sqrt(distanceSq);
+  const overlap = (minDistance - distance) / wSum;
+  
+  // Coincident points: separate along an arbitrary axis
+  const nx = distance === 0 ? 1 : dx / distance;
+  const ny = distance === 0 ? 0 : dy / distance;
+  
+  a.position.x -= nx * overlap * w1;
+  a.position.y -= ny * overlap * w1;
+  b.position.x += nx * overlap * w2;
+  b.position.y += ny * overlap * w2;
+  
+  return true;
+};
\ No newline at end of file
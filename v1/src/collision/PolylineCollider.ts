@@ -0,0 +1,86 @@
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { Collider, ColliderOptions } from './Collider';
+
+export interface PolylineColliderOptions extends ColliderOptions {
+  closed?: boolean;
+}
+
+/**
+ * Chain of line segments, such as terrain or a ledge. Points are kept `bodySize`
+ * away from every segment on the side they approached from, and a point that
+ * crossed a segment within one step is moved back to that side.
+ */
+export class PolylineCollider implements Collider {
+  public enabled: boolean;
+  public restitution: number;
+  public friction: number;
+  public vertices: Vector2D[];
+  public closed: boolean;
+  
+  constructor(vertices: Vector2D[], options: PolylineColliderOptions = {}) {
+    this.enabled = true;
+    this.restitution = options.restitution || 0;
+    this.friction = options.friction || 0;
+    this.vertices = vertices;
+    this.closed = options.closed || false;
+  }
+  
+  collide(point: Point): Vector2D | null {
+    let result: Vector2D | null = null;
+    const count = this.closed ? this.vertices.length : this.vertices.length - 1;
+    
+    for (let i = 0; i < count; i++) {
+      const a = this.vertices[i];
+      const b = this.vertices[(i + 1) % this.vertices.length];
+      const normal = this.collideSegment(point, a, b);
+      
+      if (normal) {
+        result = normal;
+      }
+    }
+    
+    return result;
+  }
+  
+  private collideSegment(point: Point, a: Vector2D, b: Vector2D): Vector2D | null {
+    const radius = point.bodySize;
+    const ex = b.x - a.x;
+    const ey = b.y - a.y;
+    const lengthSq = ex * ex + ey * ey;
+    
+    if (lengthSq === 0) return null;
+    
+    // Side of the segment the point started the step on
+    const prevSide = ex * (point.prevPosition.y - a.y) - ey * (point.prevPosition.x - a.x);
+    const side = ex * (point.position.y - a.y) - ey * (point.position.x - a.x);
+    
+    // Closest point on the segment
+    const t = Math.max(0, Math.min(1,
+      ((point.position.x - a.x) * ex + (point.position.y - a.y) * ey) / lengthSq
+    ));
+    const cx = a.x + ex * t;
+    const cy = a.y + ey * t;
+    const dx = point.position.x - cx;
+    const dy = point.position.y - cy;
+    const distanceSq = dx * dx + dy * dy;
+    
+    const crossed = prevSide !== 0 && side !== 0 && (prevSide > 0) !== (side > 0) && t > 0 && t < 1;
+    
+    if (!crossed && distanceSq >= radius * radius) return null;
+    
+    let normal: Vector2D;
+    if (crossed || distanceSq === 0) {
+      // Segment normal facing the side the point came from
+      const length = Math.sqrt(lengthSq);
+      const direction = (crossed ? prevSide : side || prevSide) > 0 ? 1 : -1;
+      normal = new Vector2D(-ey / length * direction, ex / length * direction);
+    } else {
+      const distance = Math.sqrt(distanceSq);
+      normal = new Vector2D(dx / distance, dy / distance);
+    }
+    
+    point.position.set(cx + normal.x * radius, cy + normal.y * radius);
+    return normal;
+  }
+}
\ No newline at end of file
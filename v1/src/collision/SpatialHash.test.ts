@@ -0,0 +1,64 @@
+import { Chain } from '../core/Chain';
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { SpatialHash } from './SpatialHash';
+
+describe('SpatialHash', () => {
+  it('finds points within a radius or rectangle', () => {
+    const hash = new SpatialHash(10);
+    const near = new Point(3, 4);
+    const edge = new Point(-4, 0);
+    const far = new Point(30, 0);
+    hash.build([near, edge, far]);
+    
+    const found = hash.queryRadius(0, 0, 5);
+    expect(found).toHaveLength(2);
+    expect(found).toEqual(expect.arrayContaining([near, edge]));
+    expect(hash.queryRect(25, -5, 10, 10)).toEqual([far]);
+  });
+  
+  it('follows points that move between cells', () => {
+    const hash = new SpatialHash(10);
+    const point = new Point(5, 5);
+    hash.insert(point);
+    
+    point.position.set(55, 55);
+    hash.update(point);
+    expect(hash.queryRadius(5, 5, 2)).toEqual([]);
+    expect(hash.queryRadius(55, 55, 2)).toEqual([point]);
+    
+    hash.remove(point);
+    expect(hash.size).toBe(0);
+  });
+  
+  it('visits every pair in the same or adjacent cells once', () => {
+    const hash = new SpatialHash(10);
+    const points = [new Point(1, 1), new Point(9, 9), new Point(11, 1), new Point(-1, 11), new Point(50, 50)];
+    hash.build(points);
+    
+    const pairs = new Set<string>();
+    hash.forEachPair((a, b) => {
+      const key = [points.indexOf(a), points.indexOf(b)].sort((x, y) => x - y).join(':');
+      expect(pairs.has(key)).toBe(false);
+      pairs.add(key);
+    });
+    
+    // Cells (0, 0), (1, 0) and (-1, 1) touch the first cell but (1, 0) and (-1, 1)
+    // are two apart; the last point is alone
+    expect(pairs.size).toBe(5);
+    expect(pairs.has('2:3')).toBe(false);
+  });
+  
+  it('rejects empty cells', () => {
+    expect(() => new SpatialHash(0)).toThrow('Invalid cell size: 0');
+  });
+  
+  it('sees points added to a chain in queries', () => {
+    const chain = new Chain(new Vector2D(0, 0));
+    chain.addPoint(new Point(0, 0));
+    expect(chain.queryRadius(100, 100, 5)).toEqual([]);
+    
+    const added = chain.points[chain.addPoint(new Point(100, 100))];
+    expect(chain.queryRadius(100, 100, 5)).toEqual([added]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,211 @@
+import { Point } from '../core/Point';
+
+interface Cell {
+  x: number;
+  y: number;
+  points: Point[];
+}
+
+// Cell coordinates are packed into one integer key (exact for |coordinate| < 2^20)
+const CELL_OFFSET = 1 << 20;
+const CELL_RANGE = 1 << 21;
+
+const cellKey = (x: number, y: number): number => (x + CELL_OFFSET) * CELL_RANGE + (y + CELL_OFFSET);
+
+/**
+ * Uniform grid broadphase. Points are bucketed by position into square cells of
+ * `cellSize`, so proximity queries only look at nearby cells. The grid can be
+ * rebuilt with `build` or kept up to date point by point with `update`.
+ */
+export class SpatialHash {
+  public cellSize: number;
+  private cells: Map<number, Cell>;
+  private pointKeys: Map<Point, number>;
+  
+  constructor(cellSize: number) {
+    if (cellSize <= 0) {
+      throw new Error(`Invalid cell size: ${cellSize}`);
+    }
+    
+    this.cellSize = cellSize;
+    this.cells = new Map();
+    this.pointKeys = new Map();
+  }
+  
+  get size(): number {
+    return this.pointKeys.size;
+  }
+  
+  clear(): void {
+    this.cells.clear();
+    this.pointKeys.clear();
+  }
+  
+  build(points: Point[]): void {
+    this.clear();
+    for (const point of points) {
+      this.insert(point);
+    }
+  }
+  
+  insert(point: Point): void {
+    if (this.pointKeys.has(point)) {
+      this.update(point);
+      return;
+    }
+    
+    const x = Math.floor(point.position.x / this.cellSize);
+    const y = Math.floor(point.position.y / this.cellSize);
+    const key = cellKey(x, y);
+    
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = { x, y, points: [] };
+      this.cells.set(key, cell);
+    }
+    
+    cell.points.push(point);
+    this.pointKeys.set(point, key);
+  }
+  
+  remove(point: Point): void {
+    const key = this.pointKeys.get(point);
+    if (key === undefined) return;
+    
+    const cell = this.cells.get(key);
+    if (cell) {
+      const index = cell.points.indexOf(point);
+      if (index !== -1) {
+        cell.points.splice(index, 1);
+      }
+      if (cell.points.length === 0) {
+        this.cells.delete(key);
+      }
+    }
+    
+    this.pointKeys.delete(point);
+  }
+  
+  /**
+   * Moves a point to the cell matching its current position.
+   */
+  update(point: Point): void {
+    const key = this.pointKeys.get(point);
+    const x = Math.floor(point.position.x / this.cellSize);
+    const y = Math.floor(point.position.y / this.cellSize);
+    
+    if (key === cellKey(x, y)) return;
+    
+    this.remove(point);
+    this.insert(point);
+  }
+  
+  /**
+   * Returns the points whose position lies within `radius` of (x, y).
+   */
+  queryRadius(x: number, y: number, radius: number): Point[] {
+    const result: Point[] = [];
+    const radiusSq = radius * radius;
+    
+    this.forEachCellInRect(x - radius, y - radius, x + radius, y + radius, (cell) => {
+      for (const point of cell.points) {
+        const dx = point.position.x - x;
+        const dy = point.position.y - y;
+        if (dx * dx + dy * dy <= radiusSq) {
+          result.push(point);
+        }
+      }
+    });
+    
+    return result;
+  }
+  
+  /**
+   * Returns the points whose position lies inside the given rectangle.
+   */
+  queryRect(x: number, y: number, width: number, height: number): Point[] {
+    const result: Point[] = [];
+    
+    this.forEachCellInRect(x, y, x + width, y + height, (cell) => {
+      for (const point of cell.points) {
+        const { x: px, y: py } = point.position;
+        if (px >= x && px <= x + width && py >= y && py <= y + height) {
+          result.push(point);
+        }
+      }
+    });
+    
+    return result;
+  }
+  
+  /**
+   * Calls `callback` once for every pair of points in the same or adjacent cells.
+   * Pairs further apart than `cellSize` may be skipped, so the cell size must be at
+   * least the largest interaction distance.
+   */
+  forEachPair(callback: (a: Point, b: Point) => void): void {
+    this.cells.forEach((cell) => {
+      const points = cell.points;
+      
+      for (let i = 0; i < points.length; i++) {
+        for (let j = i + 1; j < points.length; j++) {
+          callback(points[i], points[j]);
+        }
+      }
+      
+      // Visit half of the neighbours so each pair of cells is handled once
+      this.pairWithCell(points, cell.x + 1, cell.y, callback);
+      this.pairWithCell(points, cell.x - 1, cell.y + 1, callback);
+      this.pairWithCell(points, cell.x, cell.y + 1, callback);
+      this.pairWithCell(points, cell.x + 1, cell.y + 1, callback);
+    });
+  }
+  
+  private pairWithCell(
+    points: Point[],
+    x: number,
+    y: number,
+    callback: (a: Point, b: Point) => void
+  ): void {
+    const other = this.cells.get(cellKey(x, y));
+    if (!other) return;
+    
+    for (const a of points) {
+      for (const b of other.points) {
+        callback(a, b);
+      }
+    }
+  }
+  
+  private forEachCellInRect(
+    minX: number,
+    minY: number,
+    maxX: number,
+    maxY: number,
+    callback: (cell: Cell) => void
+  ): void {
+    const startX = Math.floor(minX / this.cellSize);
+    const startY = Math.floor(minY / this.cellSize);
+    const endX = Math.floor(maxX / this.cellSize);
+    const endY = Math.floor(maxY / this.cellSize);
+    
+    // Large queries are cheaper by scanning the occupied cells instead
+    if ((endX - startX + 1) * (endY - startY + 1) > this.cells.size) {
+      this.cells.forEach((cell) => {
+        if (cell.x >= startX && cell.x <= endX && cell.y >= startY && cell.y <= endY) {
+          callback(cell);
+        }
+      });
+      return;
+    }
+    
+    for (let x = startX; x <= endX; x++) {
+      for (let y = startY; y <= endY; y++) {
+        const cell = this.cells.get(cellKey(x, y));
+        if (cell) {
+          callback(cell);
+        }
+      }
+    }
+  }
+}
\ No newline at end of file
@@ -1,13 +1,17 @@
 import React, { useRef, useEffect } from 'react';
 import { useChain } from '../hooks/useChain';
 import { Point } from '../core/Point';
-import { Chain } from '../core/Chain';
+import { Chain, SolverMode } from '../core/Chain';
+import { IntegrationMode } from '../core/Point';
 
 export interface ChainCanvasProps {
   width?: number;
   height?: number;
   gravity?: { x: number, y: number };
   iterations?: number;
+  integration?: IntegrationMode;
+  solver?: SolverMode;
+  substeps?: number;
   fps?: number;
   autoStart?: boolean;
   chainSetup?: (chain: Chain) => void;
@@ -20,6 +24,9 @@ export const ChainCanvas: React.FC<ChainCanvasProps> = ({
   height = 400,
   gravity,
   iterations,
+  integration,
+  solver,
+  substeps,
   fps,
   autoStart,
   chainSetup,
@@ -30,6 +37,9 @@ export const ChainCanvas: React.FC<ChainCanvasProps> = ({
   const { chain, isInitialized, renderToCanvas, pause, resume, isPaused } = useChain({
     gravity,
     iterations,
+    integration,
+    solver,
+    substeps,
     fps,
     autoStart
   });
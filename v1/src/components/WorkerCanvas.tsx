@@ -0,0 +1,94 @@
+import React, { useRef, useEffect } from 'react';
+import { useSimulationWorker, WorkerFactory } from '../hooks/useSimulationWorker';
+import { ChainConfig } from '../core/Chain';
+import { SimulationKind } from '../worker/Protocol';
+import { SimulationClient } from '../worker/SimulationClient';
+
+export interface WorkerCanvasProps {
+  createWorker: WorkerFactory;
+  width?: number;
+  height?: number;
+  kind?: SimulationKind;
+  gravity?: { x: number, y: number };
+  config?: ChainConfig;
+  iterations?: number;
+  fps?: number;
+  autoStart?: boolean;
+  setup?: (client: SimulationClient) => void;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+export const WorkerCanvas: React.FC<WorkerCanvasProps> = ({
+  createWorker,
+  width = 400,
+  height = 400,
+  kind,
+  gravity,
+  config,
+  iterations,
+  fps,
+  autoStart,
+  setup,
+  className,
+  style
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { client, isInitialized, renderToCanvas, pause, resume, isPaused } = useSimulationWorker(createWorker, {
+    kind,
+    gravity,
+    config,
+    iterations,
+    fps,
+    autoStart
+  });
+  
+  // Build the scene once the worker is initialized
+  useEffect(() => {
+    if (isInitialized && client && setup) {
+      setup(client);
+    }
+  }, [isInitialized, client, setup]);
+  
+  // Render loop
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    
+    let animationId: number;
+    
+    const render = () => {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      renderToCanvas(ctx);
+      animationId = requestAnimationFrame(render);
+    };
+    
+    render();
+    
+    return () => {
+      cancelAnimationFrame(animationId);
+    };
+  }, [renderToCanvas]);
+  
+  return (
+    <div className={className} style={style}>
+      <canvas 
+        ref={canvasRef}
+        width={width}
+        height={height}
+        style={{ 
+          border: '1px solid #ccc',
+          ...style
+        }}
+      />
+      <div style={{ marginTop: 10 }}>
+        <button onClick={isPaused ? resume : pause}>
+          {isPaused ? 'Start' : 'Pause'}
+        </button>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { AngleConstraint } from './AngleConstraint';
+
+// Joint at the origin with the first arm along +x and the second at `angle`
+const createJoint = (angle: number): [Point, Point, Point] => [
+  new Point(1, 0),
+  new Point(0, 0),
+  new Point(Math.cos(angle), Math.sin(angle))
+];
+
+describe('AngleConstraint', () => {
+  it('measures signed and unsigned angles', () => {
+    const [a, b, c] = createJoint(-Math.PI / 2);
+    
+    expect(new AngleConstraint(a, b, c, 0, Math.PI).calculateAngle()).toBeCloseTo(Math.PI / 2);
+    expect(new AngleConstraint(a, b, c, -Math.PI, Math.PI, 1, { signed: true }).calculateAngle()).toBeCloseTo(-Math.PI / 2);
+  });
+  
+  it('opens an unsigned joint up to its minimum', () => {
+    const points = createJoint(0.2);
+    const constraint = new AngleConstraint(points[0], points[1], points[2], Math.PI / 2, Math.PI, 1);
+    for (let i = 0; i < 20; i++) constraint.solve();
+    
+    expect(constraint.calculateAngle()).toBeCloseTo(Math.PI / 2, 2);
+  });
+  
+  it('bends a signed joint back to the side it is limited to', () => {
+    const points = createJoint(-Math.PI / 2);
+    const constraint = new AngleConstraint(points[0], points[1], points[2], Math.PI / 4, Math.PI * 3 / 4, 1, { signed: true });
+    for (let i = 0; i < 50; i++) constraint.solve();
+    
+    expect(constraint.calculateAngle()).toBeGreaterThan(Math.PI / 4 - 0.01);
+    expect(constraint.calculateAngle()).toBeLessThan(Math.PI * 3 / 4 + 0.01);
+  });
+  
+  it('wraps a signed range through ±π when minAngle > maxAngle', () => {
+    const straight = createJoint(Math.PI - 0.1);
+    const bent = createJoint(Math.PI / 2);
+    const wrapped = (points: Point[]) =>
+      new AngleConstraint(points[0], points[1], points[2], Math.PI * 3 / 4, -Math.PI * 3 / 4, 1, { signed: true });
+    
+    expect(wrapped(straight).getStrain()).toBe(0);
+    expect(wrapped(bent).getStrain()).toBeCloseTo(Math.PI / 4);
+    
+    const constraint = wrapped(bent);
+    for (let i = 0; i < 50; i++) constraint.solve();
+    expect(constraint.calculateAngle()).toBeGreaterThan(Math.PI * 3 / 4 - 0.01);
+  });
+  
+  it('moves all three points and keeps their center of mass', () => {
+    const points = createJoint(0.2);
+    const constraint = new AngleConstraint(points[0], points[1], points[2], Math.PI / 2, Math.PI, 1);
+    const center = () => points.reduce((sum, point) => sum.add(point.position), new Vector2D(0, 0));
+    const before = center();
+    constraint.solve();
+    
+    expect(points[1].position.length()).toBeGreaterThan(0);
+    expect(center().x).toBeCloseTo(before.x);
+    expect(center().y).toBeCloseTo(before.y);
+  });
+  
+  it('only moves free points', () => {
+    const points = createJoint(0.2);
+    points[0].fixed = true;
+    points[1].fixed = true;
+    const constraint = new AngleConstraint(points[0], points[1], points[2], Math.PI / 2, Math.PI, 1);
+    for (let i = 0; i < 20; i++) constraint.solve();
+    
+    expect(points[0].position.x).toBe(1);
+    expect(points[1].position.x).toBe(0);
+    expect(constraint.calculateAngle()).toBeCloseTo(Math.PI / 2, 2);
+  });
+});
\ No newline at end of file
@@ -1,12 +1,30 @@
 import { Point } from '../core/Point';
+import { signedAngle, wrapAngle } from '../utils/Angle';
+import { computeAngleGradient, applyAngleGradient } from './AngleGradient';
+import { Constraint } from './Constraint';
+import { AngleConstraintJSON, ConstraintJSON, readBoolean, readNumber } from '../serialization/Schema';
 
-export class AngleConstraint {
+export interface AngleConstraintOptions {
+  compliance?: number;
+  priority?: number;
+  signed?: boolean;
+  breakThreshold?: number;
+}
+
+export class AngleConstraint implements Constraint {
   public point1: Point;
   public point2: Point;
   public point3: Point;
   public minAngle: number;
   public maxAngle: number;
   public stiffness: number;
+  public compliance: number;
+  public enabled: boolean;
+  public priority: number;
+  public lambda: number;
+  public signed: boolean;
+  public breakThreshold?: number;
+  public broken: boolean;
 
   constructor(
     point1: Point, 
@@ -14,7 +32,8 @@ export class AngleConstraint {
     point3: Point, 
     minAngle: number = 0, 
     maxAngle: number = Math.PI, 
-    stiffness: number = 0.5
+    stiffness: number = 0.5,
+    options: AngleConstraintOptions = {}
   ) {
     this.point1 = point1;
     this.point2 = point2;
@@ -22,77 +41,154 @@ export class AngleConstraint {
     this.minAngle = minAngle;
     this.maxAngle = maxAngle;
     this.stiffness = stiffness;
+    this.compliance = options.compliance || 0;
+    this.enabled = true;
+    this.priority = options.priority !== undefined ? options.priority : 1;
+    this.lambda = 0;
+    this.signed = options.signed || false;
+    this.breakThreshold = options.breakThreshold;
+    this.broken = false;
+  }
+
+  /**
+   * How far, in radians, the angle is outside its limits.
+   */
+  getStrain(): number {
+    return Math.abs(this.calculateError());
   }
 
   solve(): void {
-    // Calculate current angle
-    const angle = this.calculateAngle();
+    const error = this.calculateError();
     
     // If the angle is within limits, no adjustment needed
-    if (angle >= this.minAngle && angle <= this.maxAngle) {
-      return;
-    }
+    if (Math.abs(error) < 0.001) return;
     
-    // Determine target angle
-    const targetAngle = angle < this.minAngle ? this.minAngle : this.maxAngle;
+    const gradient = computeAngleGradient(this.point1, this.point2, this.point3);
+    if (!gradient || gradient.weightSum === 0) return;
     
-    // Calculate vectors from middle point to end points
-    const v1x = this.point1.position.x - this.point2.position.x;
-    const v1y = this.point1.position.y - this.point2.position.y;
-    const v2x = this.point3.position.x - this.point2.position.x;
-    const v2y = this.point3.position.y - this.point2.position.y;
-    
-    // Normalize vectors
-    const len1 = Math.sqrt(v1x * v1x + v1y * v1y);
-    const len2 = Math.sqrt(v2x * v2x + v2y * v2y);
-    
-    if (len1 === 0 || len2 === 0) return; // Avoid division by zero
+    applyAngleGradient(
+      this.point1,
+      this.point2,
+      this.point3,
+      gradient,
+      error * this.stiffness / gradient.weightSum
+    );
+  }
+
+  /**
+   * XPBD variant of `solve`: the limit is enforced with the physical `compliance`
+   * (inverse stiffness, in rad/torque) so the result does not depend on the
+   * iteration count or timestep. Call `resetLambda` at the start of every step.
+   */
+  solveXPBD(dt: number): void {
+    const error = this.calculateError();
+    if (error === 0) return;
     
-    const n1x = v1x / len1;
-    const n1y = v1y / len1;
-    const n2x = v2x / len2;
-    const n2y = v2y / len2;
+    const gradient = computeAngleGradient(this.point1, this.point2, this.point3);
+    if (!gradient) return;
     
-    // Calculate rotation
-    const cosTarget = Math.cos(targetAngle);
-    const currentCos = (n1x * n2x + n1y * n2y);
+    const alpha = this.compliance / (dt * dt);
+    const denominator = gradient.weightSum + alpha;
+    if (denominator === 0) return;
     
-    // No need to adjust if already at target
-    if (Math.abs(currentCos - cosTarget) < 0.001) return;
+    // The constraint value is the angle's overshoot past the limit
+    const deltaLambda = (error - alpha * this.lambda) / denominator;
+    this.lambda += deltaLambda;
     
-    // Calculate new position for point3
-    if (!this.point3.fixed) {
-      const rotationAmount = (targetAngle - angle) * this.stiffness;
-      
-      // Rotate vector v2 around point2
-      const cosRot = Math.cos(rotationAmount);
-      const sinRot = Math.sin(rotationAmount);
-      
-      const rotatedX = v2x * cosRot - v2y * sinRot;
-      const rotatedY = v2x * sinRot + v2y * cosRot;
-      
-      this.point3.position.x = this.point2.position.x + rotatedX;
-      this.point3.position.y = this.point2.position.y + rotatedY;
-    }
+    applyAngleGradient(this.point1, this.point2, this.point3, gradient, deltaLambda);
   }
 
-  private calculateAngle(): number {
-    const ax = this.point1.position.x - this.point2.position.x;
-    const ay = this.point1.position.y - this.point2.position.y;
-    const bx = this.point3.position.x - this.point2.position.x;
-    const by = this.point3.position.y - this.point2.position.y;
-    
-    const magA = Math.sqrt(ax * ax + ay * ay);
-    const magB = Math.sqrt(bx * bx + by * by);
+  resetLambda(): void {
+    this.lambda = 0;
+  }
+
+  getPoints(): Point[] {
+    return [this.point1, this.point2, this.point3];
+  }
+
+  toJSON(): AngleConstraintJSON {
+    return {
+      type: 'angle',
+      points: [this.point1.id, this.point2.id, this.point3.id],
+      enabled: this.enabled,
+      priority: this.priority,
+      breakThreshold: this.breakThreshold,
+      minAngle: this.minAngle,
+      maxAngle: this.maxAngle,
+      stiffness: this.stiffness,
+      compliance: this.compliance,
+      signed: this.signed
+    };
+  }
+
+  static fromJSON(json: ConstraintJSON, points: Point[]): AngleConstraint {
+    if (points.length !== 3) {
+      throw new Error(`Invalid angle constraint: ${points.length} points`);
+    }
     
-    if (magA === 0 || magB === 0) return 0; // Avoid division by zero
+    const what = 'angle constraint';
+    const constraint = new AngleConstraint(
+      points[0],
+      points[1],
+      points[2],
+      readNumber(json, 'minAngle', what),
+      readNumber(json, 'maxAngle', what),
+      readNumber(json, 'stiffness', what),
+      {
+        compliance: readNumber(json, 'compliance', what),
+        priority: json.priority,
+        signed: readBoolean(json, 'signed', what),
+        breakThreshold: json.breakThreshold
+      }
+    );
+    constraint.enabled = json.enabled;
+    return constraint;
+  }
+
+  /**
+   * Current angle at `point2`. Signed constraints return the full (-π, π] turn from
+   * `point1` to `point3`; unsigned ones return its magnitude in [0, π].
+   */
+  calculateAngle(): number {
+    const angle = this.calculateSignedAngle();
+    return this.signed ? angle : Math.abs(angle);
+  }
+
+  /**
+   * Returns the signed rotation that brings the angle back within limits
+   * (0 when inside).
+   */
+  private calculateError(): number {
+    const angle = this.calculateSignedAngle();
     
-    const dotProduct = ax * bx + ay * by;
-    const cosAngle = dotProduct / (magA * magB);
+    if (this.signed) {
+      // A range with minAngle > maxAngle wraps around through ±π
+      const inside = this.minAngle <= this.maxAngle
+        ? angle >= this.minAngle && angle <= this.maxAngle
+        : angle >= this.minAngle || angle <= this.maxAngle;
+      if (inside) return 0;
+      
+      // Head for whichever limit is closer around the circle
+      const toMin = wrapAngle(this.minAngle - angle);
+      const toMax = wrapAngle(this.maxAngle - angle);
+      return Math.abs(toMin) < Math.abs(toMax) ? toMin : toMax;
+    }
     
-    // Clamp cosAngle to avoid Math.acos domain errors
-    const clampedCosAngle = Math.max(-1, Math.min(1, cosAngle));
+    const magnitude = Math.abs(angle);
+    let error = 0;
+    if (magnitude < this.minAngle) error = this.minAngle - magnitude;
+    if (magnitude > this.maxAngle) error = this.maxAngle - magnitude;
     
-    return Math.acos(clampedCosAngle);
+    // Unsigned angles open up in the direction the joint is already bent
+    return angle < 0 ? -error : error;
+  }
+
+  private calculateSignedAngle(): number {
+    return signedAngle(
+      this.point1.position.x - this.point2.position.x,
+      this.point1.position.y - this.point2.position.y,
+      this.point3.position.x - this.point2.position.x,
+      this.point3.position.y - this.point2.position.y
+    );
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
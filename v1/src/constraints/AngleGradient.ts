@@ -0,0 +1,68 @@
+import { Point } from '../core/Point';
+
+/**
+ * Gradient of the signed angle at `point2` (from `point1` to `point3`) with respect
+ * to each of the three points, together with the inverse-mass weighted sum
+ * `Σ wᵢ|∇ᵢ|²` used to distribute corrections.
+ */
+export interface AngleGradient {
+  g1x: number;
+  g1y: number;
+  g2x: number;
+  g2y: number;
+  g3x: number;
+  g3y: number;
+  weightSum: number;
+}
+
+export const computeAngleGradient = (point1: Point, point2: Point, point3: Point): AngleGradient | null => {
+  const ax = point1.position.x - point2.position.x;
+  const ay = point1.position.y - point2.position.y;
+  const bx = point3.position.x - point2.position.x;
+  const by = point3.position.y - point2.position.y;
+  
+  const lenSqA = ax * ax + ay * ay;
+  const lenSqB = bx * bx + by * by;
+  
+  if (lenSqA === 0 || lenSqB === 0) return null; // Avoid division by zero
+  
+  // Moving an end point perpendicular to its arm turns the angle
+  const g1x = ay / lenSqA;
+  const g1y = -ax / lenSqA;
+  const g3x = -by / lenSqB;
+  const g3y = bx / lenSqB;
+  
+  // The pivot moves opposite to the sum of the end points
+  const g2x = -(g1x + g3x);
+  const g2y = -(g1y + g3y);
+  
+  const weightSum =
+    point1.inverseMass * (g1x * g1x + g1y * g1y) +
+    point2.inverseMass * (g2x * g2x + g2y * g2y) +
+    point3.inverseMass * (g3x * g3x + g3y * g3y);
+  
+  return { g1x, g1y, g2x, g2y, g3x, g3y, weightSum };
+};
+
+/**
+ * Moves the three points along the angle gradient so the angle changes by roughly
+ * `scale * weightSum`, each point moving in proportion to its inverse mass.
+ */
+export const applyAngleGradient = (
+  point1: Point,
+  point2: Point,
+  point3: Point,
+  gradient: AngleGradient,
+  scale: number
+): void => {
+  const w1 = point1.inverseMass * scale;
+  const w2 = point2.inverseMass * scale;
+  const w3 = point3.inverseMass * scale;
+  
+  point1.position.x += gradient.g1x * w1;
+  point1.position.y += gradient.g1y * w1;
+  point2.position.x += gradient.g2x * w2;
+  point2.position.y += gradient.g2y * w2;
+  point3.position.x += gradient.g3x * w3;
+  point3.position.y += gradient.g3y * w3;
+};
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { Chain } from '../core/Chain';
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { AngularSpringConstraint } from './AngularSpringConstraint';
+
+const createJoint = (angle: number): [Point, Point, Point] => [
+  new Point(1, 0),
+  new Point(0, 0),
+  new Point(Math.cos(angle), Math.sin(angle))
+];
+
+describe('AngularSpringConstraint', () => {
+  it('rests at the current angle by default', () => {
+    const [a, b, c] = createJoint(2);
+    const spring = new AngularSpringConstraint(a, b, c);
+    
+    expect(spring.restAngle).toBeCloseTo(2);
+    expect(spring.getStrain()).toBeCloseTo(0);
+  });
+  
+  it('pulls the joint towards its rest angle a fraction at a time', () => {
+    const [a, b, c] = createJoint(2);
+    const spring = new AngularSpringConstraint(a, b, c, 2.5, 0.2);
+    
+    spring.solve();
+    const after = spring.calculateAngle();
+    expect(after).toBeGreaterThan(2);
+    expect(after).toBeLessThan(2.5);
+    
+    for (let i = 0; i < 100; i++) spring.solve();
+    expect(spring.calculateAngle()).toBeCloseTo(2.5, 3);
+  });
+  
+  it('derives its compliance from stiffness', () => {
+    const [a, b, c] = createJoint(2);
+    
+    expect(new AngularSpringConstraint(a, b, c, 2, 1).compliance).toBe(0);
+    expect(new AngularSpringConstraint(a, b, c, 2, 0.5).compliance).toBeCloseTo(1 / 3600);
+    expect(new AngularSpringConstraint(a, b, c, 2, 0).compliance).toBe(Infinity);
+    expect(new AngularSpringConstraint(a, b, c, 2, 0.5, 0, { compliance: 0 }).compliance).toBe(0);
+  });
+  
+  it('stays soft under XPBD with the derived compliance', () => {
+    const solveXPBD = (options = {}): number => {
+      const [a, b, c] = createJoint(2);
+      const spring = new AngularSpringConstraint(a, b, c, 2.5, 0.2, 0, options);
+      spring.resetLambda();
+      spring.solveXPBD(1 / 60);
+      return spring.calculateAngle();
+    };
+    
+    expect(solveXPBD()).toBeLessThan(2.4);
+    expect(solveXPBD({ compliance: 0 })).toBeCloseTo(2.5, 1);
+  });
+  
+  it('gives createChain an S-curved rest pose in spring mode', () => {
+    const chain = new Chain(new Vector2D(0, 0));
+    chain.createChain(0, 0, 6, 10, 2, { angleMode: 'spring', curvature: 0.3 });
+    
+    expect(chain.angleConstraints.length).toBe(0);
+    expect(chain.angularSprings.length).toBe(4);
+    const bends = chain.angularSprings.map((spring) => Math.PI - Math.abs(spring.restAngle));
+    expect(Math.max(...bends)).toBeCloseTo(0.3);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { Point } from '../core/Point';
+import { signedAngle, wrapAngle } from '../utils/Angle';
+import { computeAngleGradient, applyAngleGradient } from './AngleGradient';
+import { Constraint } from './Constraint';
+import { AngularSpringConstraintJSON, ConstraintJSON, readNumber, readOptionalNumber } from '../serialization/Schema';
+
+export interface AngularSpringOptions {
+  /**
+   * XPBD inverse stiffness. Defaults to the compliance that matches `stiffness` at
+   * 60 steps per second; pass 0 explicitly for a rigid joint.
+   */
+  compliance?: number;
+  priority?: number;
+  breakThreshold?: number;
+}
+
+// Step length the default compliance is matched at
+const REFERENCE_DT = 1 / 60;
+
+/**
+ * Compliance under which a single XPBD iteration with unit weights corrects the
+ * same fraction of the error as a PBD iteration with `stiffness` at 60 Hz.
+ */
+const complianceFromStiffness = (stiffness: number): number => {
+  if (stiffness <= 0) return Infinity;
+  return Math.max(0, 1 / stiffness - 1) * REFERENCE_DT * REFERENCE_DT;
+};
+
+/**
+ * Pulls the signed angle at `point2` towards `restAngle`, like a torsion spring.
+ * Unlike `AngleConstraint`, which only acts outside its limits, the spring is
+ * always active, so joints return to a preferred curvature.
+ */
+export class AngularSpringConstraint implements Constraint {
+  public point1: Point;
+  public point2: Point;
+  public point3: Point;
+  public restAngle: number;
+  public stiffness: number;
+  public damping: number;
+  public compliance: number;
+  public enabled: boolean;
+  public priority: number;
+  public lambda: number;
+  public breakThreshold?: number;
+  public broken: boolean;
+
+  constructor(
+    point1: Point,
+    point2: Point,
+    point3: Point,
+    restAngle?: number,
+    stiffness: number = 0.1,
+    damping: number = 0,
+    options: AngularSpringOptions = {}
+  ) {
+    this.point1 = point1;
+    this.point2 = point2;
+    this.point3 = point3;
+    this.stiffness = stiffness;
+    this.damping = damping;
+    this.compliance = options.compliance !== undefined ? options.compliance : complianceFromStiffness(stiffness);
+    this.enabled = true;
+    this.priority = options.priority !== undefined ? options.priority : 2;
+    this.lambda = 0;
+    this.breakThreshold = options.breakThreshold;
+    this.broken = false;
+    this.restAngle = restAngle !== undefined ? restAngle : this.calculateAngle();
+  }
+
+  /**
+   * How far, in radians, the joint is bent away from its rest angle.
+   */
+  getStrain(): number {
+    return Math.abs(wrapAngle(this.restAngle - this.calculateAngle()));
+  }
+
+  solve(): void {
+    const gradient = computeAngleGradient(this.point1, this.point2, this.point3);
+    if (!gradient || gradient.weightSum === 0) return;
+    
+    const angle = this.calculateAngle();
+    
+    // Spring towards the rest angle, damped by the joint's angular velocity
+    const correction =
+      wrapAngle(this.restAngle - angle) * this.stiffness -
+      wrapAngle(angle - this.calculatePreviousAngle()) * this.damping;
+    
+    if (correction === 0) return;
+    
+    applyAngleGradient(
+      this.point1,
+      this.point2,
+      this.point3,
+      gradient,
+      correction / gradient.weightSum
+    );
+  }
+
+  /**
+   * XPBD variant of `solve`. `compliance` sets the spring's softness and `damping`
+   * acts as the damping coefficient of the XPBD formulation.
+   */
+  solveXPBD(dt: number): void {
+    // An infinitely compliant spring applies no force
+    if (!isFinite(this.compliance)) return;
+    
+    const gradient = computeAngleGradient(this.point1, this.point2, this.point3);
+    if (!gradient) return;
+    
+    const angle = this.calculateAngle();
+    const alpha = this.compliance / (dt * dt);
+    const gamma = this.compliance * this.damping / dt;
+    const denominator = (1 + gamma) * gradient.weightSum + alpha;
+    
+    if (denominator === 0) return;
+    
+    const error = wrapAngle(this.restAngle - angle);
+    const angularChange = wrapAngle(angle - this.calculatePreviousAngle());
+    const deltaLambda = (error - alpha * this.lambda - gamma * angularChange) / denominator;
+    this.lambda += deltaLambda;
+    
+    applyAngleGradient(this.point1, this.point2, this.point3, gradient, deltaLambda);
+  }
+
+  resetLambda(): void {
+    this.lambda = 0;
+  }
+
+  getPoints(): Point[] {
+    return [this.point1, this.point2, this.point3];
+  }
+
+  toJSON(): AngularSpringConstraintJSON {
+    const json: AngularSpringConstraintJSON = {
+      type: 'angularSpring',
+      points: [this.point1.id, this.point2.id, this.point3.id],
+      enabled: this.enabled,
+      priority: this.priority,
+      breakThreshold: this.breakThreshold,
+      restAngle: this.restAngle,
+      stiffness: this.stiffness,
+      damping: this.damping
+    };
+    
+    // Infinity has no JSON representation; a missing compliance is derived again
+    if (isFinite(this.compliance)) json.compliance = this.compliance;
+    
+    return json;
+  }
+
+  static fromJSON(json: ConstraintJSON, points: Point[]): AngularSpringConstraint {
+    if (points.length !== 3) {
+      throw new Error(`Invalid angular spring: ${points.length} points`);
+    }
+    
+    const what = 'angular spring';
+    const constraint = new AngularSpringConstraint(
+      points[0],
+      points[1],
+      points[2],
+      readNumber(json, 'restAngle', what),
+      readNumber(json, 'stiffness', what),
+      readNumber(json, 'damping', what),
+      {
+        compliance: readOptionalNumber(json, 'compliance', what),
+        priority: json.priority,
+        breakThreshold: json.breakThreshold
+      }
+    );
+    constraint.enabled = json.enabled;
+    return constraint;
+  }
+
+  /**
+   * Signed angle at `point2`, turning from `point1` to `point3`, in (-π, π].
+   */
+  calculateAngle(): number {
+    return signedAngle(
+      this.point1.position.x - this.point2.position.x,
+      this.point1.position.y - this.point2.position.y,
+      this.point3.position.x - this.point2.position.x,
+      this.point3.position.y - this.point2.position.y
+    );
+  }
+
+  private calculatePreviousAngle(): number {
+    return signedAngle(
+      this.point1.prevPosition.x - this.point2.prevPosition.x,
+      this.point1.prevPosition.y - this.point2.prevPosition.y,
+      this.point3.prevPosition.x - this.point2.prevPosition.x,
+      this.point3.prevPosition.y - this.point2.prevPosition.y
+    );
+  }
+}
\ No newline at end of file
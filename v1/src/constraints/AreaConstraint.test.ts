@@ -0,0 +1,53 @@
+import { Point } from '../core/Point';
+import { AreaConstraint } from './AreaConstraint';
+
+// A square of side 2, counter-clockwise unless reversed
+const createSquare = (reversed: boolean = false): Point[] => {
+  const points = [new Point(0, 0), new Point(2, 0), new Point(2, 2), new Point(0, 2)];
+  return reversed ? points.reverse() : points;
+};
+
+describe('AreaConstraint', () => {
+  it('measures the signed area of the ring', () => {
+    expect(new AreaConstraint(createSquare()).calculateArea()).toBeCloseTo(4);
+    expect(new AreaConstraint(createSquare(true)).calculateArea()).toBeCloseTo(-4);
+  });
+  
+  it('needs at least three points', () => {
+    expect(() => new AreaConstraint([new Point(0, 0), new Point(1, 0)])).toThrow('at least 3 points');
+  });
+  
+  it('restores the rest area in either winding order', () => {
+    for (const reversed of [false, true]) {
+      const points = createSquare(reversed);
+      const constraint = new AreaConstraint(points);
+      points.forEach((point) => point.position.multiplyScalar(0.5));
+      
+      expect(constraint.getStrain()).toBeCloseTo(0.75);
+      for (let i = 0; i < 10; i++) constraint.solve();
+      
+      expect(Math.abs(constraint.calculateArea())).toBeCloseTo(4, 3);
+    }
+  });
+  
+  it('inflates with pressure', () => {
+    const constraint = new AreaConstraint(createSquare(), { pressure: 2 });
+    
+    expect(constraint.getTargetArea()).toBe(8);
+    for (let i = 0; i < 10; i++) constraint.solveXPBD(1 / 60);
+    
+    expect(constraint.calculateArea()).toBeCloseTo(8, 3);
+  });
+  
+  it('leaves fixed points in place', () => {
+    const points = createSquare();
+    points[0].fixed = true;
+    const constraint = new AreaConstraint(points, { restArea: 6 });
+    
+    for (let i = 0; i < 10; i++) constraint.solve();
+    
+    expect(points[0].position.x).toBe(0);
+    expect(points[0].position.y).toBe(0);
+    expect(constraint.calculateArea()).toBeCloseTo(6, 3);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { Point } from '../core/Point';
+import { Constraint } from './Constraint';
+import { AreaConstraintJSON, ConstraintJSON, readNumber } from '../serialization/Schema';
+
+export interface AreaConstraintOptions {
+  restArea?: number;
+  pressure?: number;
+  stiffness?: number;
+  compliance?: number;
+  priority?: number;
+  breakThreshold?: number;
+}
+
+/**
+ * Keeps the area enclosed by a closed ring of points at `restArea * pressure`, the
+ * 2D equivalent of a volume constraint. Pressure above 1 inflates the ring, below 1
+ * lets it sag.
+ */
+export class AreaConstraint implements Constraint {
+  public points: Point[];
+  public restArea: number;
+  public pressure: number;
+  public stiffness: number;
+  public compliance: number;
+  public enabled: boolean;
+  public priority: number;
+  public lambda: number;
+  public breakThreshold?: number;
+  public broken: boolean;
+
+  constructor(points: Point[], options: AreaConstraintOptions = {}) {
+    if (points.length < 3) {
+      throw new Error(`Area constraint needs at least 3 points, got ${points.length}`);
+    }
+    
+    this.points = points;
+    this.restArea = options.restArea !== undefined ? options.restArea : Math.abs(this.calculateArea());
+    this.pressure = options.pressure !== undefined ? options.pressure : 1;
+    this.stiffness = options.stiffness !== undefined ? options.stiffness : 1;
+    this.compliance = options.compliance || 0;
+    this.enabled = true;
+    this.priority = options.priority !== undefined ? options.priority : 1;
+    this.lambda = 0;
+    this.breakThreshold = options.breakThreshold;
+    this.broken = false;
+  }
+
+  /**
+   * Signed area of the ring (shoelace formula); the sign follows the winding order.
+   */
+  calculateArea(): number {
+    let area = 0;
+    
+    for (let i = 0; i < this.points.length; i++) {
+      const a = this.points[i].position;
+      const b = this.points[(i + 1) % this.points.length].position;
+      area += a.x * b.y - b.x * a.y;
+    }
+    
+    return area / 2;
+  }
+
+  getTargetArea(): number {
+    return this.restArea * this.pressure;
+  }
+
+  /**
+   * Relative deviation from the target area.
+   */
+  getStrain(): number {
+    const target = this.getTargetArea();
+    return target > 0 ? Math.abs(Math.abs(this.calculateArea()) - target) / target : 0;
+  }
+
+  solve(): void {
+    const gradient = this.computeGradient();
+    if (!gradient) return;
+    
+    const error = gradient.area - this.getTargetArea() * gradient.sign;
+    this.applyGradient(gradient.gradient, -error * this.stiffness / gradient.weightSum);
+  }
+
+  /**
+   * XPBD variant of `solve`, with `compliance` in units of inverse pressure.
+   */
+  solveXPBD(dt: number): void {
+    const gradient = this.computeGradient();
+    if (!gradient) return;
+    
+    const alpha = this.compliance / (dt * dt);
+    const error = gradient.area - this.getTargetArea() * gradient.sign;
+    const deltaLambda = (-error - alpha * this.lambda) / (gradient.weightSum + alpha);
+    
+    this.lambda += deltaLambda;
+    this.applyGradient(gradient.gradient, deltaLambda);
+  }
+
+  resetLambda(): void {
+    this.lambda = 0;
+  }
+
+  getPoints(): Point[] {
+    return this.points;
+  }
+
+  toJSON(): AreaConstraintJSON {
+    return {
+      type: 'area',
+      points: this.points.map((point) => point.id),
+      enabled: this.enabled,
+      priority: this.priority,
+      breakThreshold: this.breakThreshold,
+      restArea: this.restArea,
+      pressure: this.pressure,
+      stiffness: this.stiffness,
+      compliance: this.compliance
+    };
+  }
+
+  static fromJSON(json: ConstraintJSON, points: Point[]): AreaConstraint {
+    const what = 'area constraint';
+    const constraint = new AreaConstraint(points, {
+      restArea: readNumber(json, 'restArea', what),
+      pressure: readNumber(json, 'pressure', what),
+      stiffness: readNumber(json, 'stiffness', what),
+      compliance: readNumber(json, 'compliance', what),
+      priority: json.priority,
+      breakThreshold: json.breakThreshold
+    });
+    constraint.enabled = json.enabled;
+    return constraint;
+  }
+
+  private computeGradient(): { area: number, sign: number, gradient: number[], weightSum: number } | null {
+    const count = this.points.length;
+    const gradient: number[] = [];
+    let weightSum = 0;
+    
+    // dA/dp_i is half the perpendicular of the chord between its neighbours
+    for (let i = 0; i < count; i++) {
+      const previous = this.points[(i + count - 1) % count].position;
+      const next = this.points[(i + 1) % count].position;
+      const gx = (next.y - previous.y) / 2;
+      const gy = (previous.x - next.x) / 2;
+      
+      gradient.push(gx, gy);
+      weightSum += this.points[i].inverseMass * (gx * gx + gy * gy);
+    }
+    
+    if (weightSum === 0) return null;
+    
+    const area = this.calculateArea();
+    return { area: area, sign: area < 0 ? -1 : 1, gradient: gradient, weightSum: weightSum };
+  }
+
+  private applyGradient(gradient: number[], scale: number): void {
+    for (let i = 0; i < this.points.length; i++) {
+      const point = this.points[i];
+      const w = point.inverseMass;
+      
+      point.position.x += gradient[i * 2] * scale * w;
+      point.position.y += gradient[i * 2 + 1] * scale * w;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { Chain } from '../core/Chain';
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { Constraint } from './Constraint';
+
+// A custom constraint that keeps a point on or above y = 0 (y grows downwards)
+class KeepAboveLine implements Constraint {
+  public enabled = true;
+  public priority: number;
+  public point: Point;
+  public calls: number[];
+  
+  constructor(point: Point, priority: number, calls: number[]) {
+    this.point = point;
+    this.priority = priority;
+    this.calls = calls;
+  }
+  
+  solve(): void {
+    this.calls.push(this.priority);
+    if (this.point.position.y > 0) {
+      this.point.position.y = 0;
+    }
+  }
+  
+  getPoints(): Point[] {
+    return [this.point];
+  }
+}
+
+describe('Constraint', () => {
+  it('solves custom constraints alongside the built-in ones', () => {
+    const chain = new Chain(new Vector2D(0, 10));
+    const point = chain.points[chain.addPoint(new Point(0, -1))];
+    const calls: number[] = [];
+    
+    chain.addConstraint(new KeepAboveLine(point, 1, calls));
+    for (let i = 0; i < 60; i++) chain.update(1 / 60);
+    
+    expect(calls.length).toBeGreaterThan(0);
+    expect(point.position.y).toBeCloseTo(0);
+  });
+  
+  it('stops solving removed or disabled constraints', () => {
+    const chain = new Chain(new Vector2D(0, 10));
+    const point = chain.points[chain.addPoint(new Point(0, 0))];
+    const calls: number[] = [];
+    const constraint = chain.addConstraint(new KeepAboveLine(point, 1, calls));
+    
+    constraint.enabled = false;
+    expect(chain.getSolveOrder()).not.toContain(constraint);
+    
+    constraint.enabled = true;
+    chain.removeConstraint(constraint);
+    chain.update(1 / 60);
+    
+    expect(calls).toEqual([]);
+    expect(point.position.y).toBeGreaterThan(0);
+  });
+  
+  it('solves in ascending priority, keeping insertion order for ties', () => {
+    const chain = new Chain(new Vector2D(0, 0));
+    chain.addPoint(new Point(0, 0));
+    chain.addPoint(new Point(1, 0));
+    const calls: number[] = [];
+    
+    const late = chain.addConstraint(new KeepAboveLine(chain.points[0], 2, calls));
+    const first = chain.addConstraint(new KeepAboveLine(chain.points[0], 1, calls));
+    const second = chain.addConstraint(new KeepAboveLine(chain.points[1], 1, calls));
+    const distance = chain.addDistanceConstraint(0, 1, 1, { priority: 1 });
+    const early = chain.addDistanceConstraint(0, 1, 1, { priority: -1 });
+    
+    expect(chain.getSolveOrder()).toEqual([early, distance, first, second, late]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { Point } from '../core/Point';
+import { ConstraintJSON } from '../serialization/Schema';
+
+/**
+ * Common shape of everything a `Chain` can solve. Built-in constraints implement it,
+ * and custom constraints registered with `Chain.addConstraint` only need to provide
+ * `solve`, `getPoints` and the `enabled`/`priority` fields.
+ *
+ * Constraints are solved in ascending `priority` order; constraints with equal
+ * priority keep the order they were added in.
+ */
+export interface Constraint {
+  enabled: boolean;
+  priority: number;
+  breakThreshold?: number;
+  broken?: boolean;
+  
+  /** Moves the constrained points towards a valid configuration (PBD). */
+  solve(): void;
+  
+  /** Points the constraint acts on. */
+  getPoints(): Point[];
+  
+  /** Compliance-based solve used when the chain's solver is `xpbd`; falls back to `solve`. */
+  solveXPBD?(dt: number): void;
+  
+  /** Advances time-dependent state once per (sub)step, before constraints are solved. */
+  update?(dt: number): void;
+  
+  /** Clears accumulated XPBD state at the start of a step. */
+  resetLambda?(): void;
+  
+  /** Strain compared against `breakThreshold` after each step. */
+  getStrain?(): number;
+  
+  render?(ctx: CanvasRenderingContext2D): void;
+  
+  /** Internal state that changes while simulating, for `Chain.snapshot`. */
+  saveState?(): unknown;
+  
+  /** Restores state returned by `saveState`. */
+  restoreState?(state: unknown): void;
+  
+  /** Serialized form; constraints without it are left out when saving a chain. */
+  toJSON?(): ConstraintJSON;
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { Point } from '../core/Point';
+import { DistanceConstraint } from './DistanceConstraint';
+
+describe('DistanceConstraint', () => {
+  describe('solve', () => {
+    it('moves both points equally when their masses are equal', () => {
+      const a = new Point(0, 0);
+      const b = new Point(4, 0);
+      new DistanceConstraint(a, b, 2).solve();
+      
+      expect(a.position.x).toBeCloseTo(1);
+      expect(b.position.x).toBeCloseTo(3);
+    });
+    
+    it('moves the lighter point further', () => {
+      const light = new Point(0, 0, { mass: 1 });
+      const heavy = new Point(4, 0, { mass: 3 });
+      new DistanceConstraint(light, heavy, 2).solve();
+      
+      // Inverse masses 1 and 1/3 split the 2 unit correction 3:1
+      expect(light.position.x).toBeCloseTo(1.5);
+      expect(heavy.position.x).toBeCloseTo(3.5);
+    });
+    
+    it('never moves a fixed point', () => {
+      const anchor = new Point(0, 0, { fixed: true });
+      const free = new Point(4, 0);
+      new DistanceConstraint(anchor, free, 2).solve();
+      
+      expect(anchor.position.x).toBe(0);
+      expect(free.position.x).toBeCloseTo(2);
+    });
+    
+    it('does nothing between two fixed points', () => {
+      const a = new Point(0, 0, { fixed: true });
+      const b = new Point(4, 0, { fixed: true });
+      new DistanceConstraint(a, b, 2).solve();
+      
+      expect(a.position.x).toBe(0);
+      expect(b.position.x).toBe(4);
+    });
+  });
+  
+  describe('solveXPBD', () => {
+    it('is rigid with zero compliance', () => {
+      const anchor = new Point(0, 0, { fixed: true });
+      const free = new Point(4, 0);
+      new DistanceConstraint(anchor, free, 2).solveXPBD(1 / 60);
+      
+      expect(free.position.x).toBeCloseTo(2);
+    });
+    
+    it('gives the same compliant result for any iteration count', () => {
+      const solveWith = (iterations: number): number => {
+        const anchor = new Point(0, 0, { fixed: true });
+        const free = new Point(4, 0);
+        const constraint = new DistanceConstraint(anchor, free, 2, 1, { compliance: 0.001 });
+        constraint.resetLambda();
+        for (let i = 0; i < iterations; i++) constraint.solveXPBD(1 / 60);
+        return free.position.x;
+      };
+      
+      // alpha = compliance / dt² = 3.6, so the error converges to 2 * 3.6 / 4.6
+      expect(solveWith(50)).toBeCloseTo(2 + 2 * 3.6 / 4.6, 3);
+      expect(solveWith(200)).toBeCloseTo(solveWith(50), 3);
+      expect(solveWith(50)).toBeGreaterThan(2);
+    });
+  });
+  
+  describe('ranges', () => {
+    it('leaves points alone within the range', () => {
+      const a = new Point(0, 0);
+      const b = new Point(3, 0);
+      new DistanceConstraint(a, b, 2, 1, { minDistance: 1, maxDistance: 4 }).solve();
+      
+      expect(a.position.x).toBe(0);
+      expect(b.position.x).toBe(3);
+    });
+    
+    it('pulls back to the nearest bound', () => {
+      const anchor = new Point(0, 0, { fixed: true });
+      const far = new Point(6, 0);
+      const near = new Point(0.5, 0);
+      new DistanceConstraint(anchor, far, 2, 1, { minDistance: 1, maxDistance: 4 }).solve();
+      new DistanceConstraint(anchor, near, 2, 1, { minDistance: 1, maxDistance: 4 }).solve();
+      
+      expect(far.position.x).toBeCloseTo(4);
+      expect(near.position.x).toBeCloseTo(1);
+    });
+    
+    it('acts like a slack rope with only a maximum', () => {
+      const constraint = new DistanceConstraint(new Point(0, 0), new Point(1, 0), 5, 1, { maxDistance: 5 });
+      
+      expect(constraint.minDistance).toBe(0);
+      expect(constraint.getTargetDistance(0.5)).toBe(0.5);
+      expect(constraint.getTargetDistance(7)).toBe(5);
+    });
+  });
+});
\ No newline at end of file
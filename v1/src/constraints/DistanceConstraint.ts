@@ -1,16 +1,79 @@
 import { Point } from '../core/Point';
+import { Constraint } from './Constraint';
+import { ConstraintJSON, DistanceConstraintJSON, readNumber, readOptionalNumber } from '../serialization/Schema';
 
-export class DistanceConstraint {
+export interface DistanceConstraintOptions {
+  compliance?: number;
+  priority?: number;
+  minDistance?: number;
+  maxDistance?: number;
+  breakThreshold?: number;
+}
+
+export class DistanceConstraint implements Constraint {
   public point1: Point;
   public point2: Point;
   public distance: number;
+  public minDistance?: number;
+  public maxDistance?: number;
   public stiffness: number;
+  public compliance: number;
+  public enabled: boolean;
+  public priority: number;
+  public lambda: number;
+  public breakThreshold?: number;
+  public broken: boolean;
 
-  constructor(point1: Point, point2: Point, distance?: number, stiffness: number = 1) {
+  constructor(
+    point1: Point,
+    point2: Point,
+    distance?: number,
+    stiffness: number = 1,
+    options: DistanceConstraintOptions = {}
+  ) {
     this.point1 = point1;
     this.point2 = point2;
     this.distance = distance || point1.position.distance(point2.position);
     this.stiffness = stiffness;
+    this.compliance = options.compliance || 0;
+    this.enabled = true;
+    this.priority = options.priority !== undefined ? options.priority : 0;
+    this.lambda = 0;
+    this.breakThreshold = options.breakThreshold;
+    this.broken = false;
+    
+    // Giving either bound turns this into a range (slack rope) constraint
+    if (options.minDistance !== undefined || options.maxDistance !== undefined) {
+      this.minDistance = options.minDistance !== undefined ? options.minDistance : 0;
+      this.maxDistance = options.maxDistance !== undefined ? options.maxDistance : Infinity;
+    }
+  }
+
+  /**
+   * Distance the constraint pulls towards: `distance` for an exact constraint, or the
+   * current distance clamped to `[minDistance, maxDistance]` for a range constraint.
+   */
+  getTargetDistance(currentDistance: number): number {
+    if (this.minDistance === undefined && this.maxDistance === undefined) {
+      return this.distance;
+    }
+    
+    const min = this.minDistance !== undefined ? this.minDistance : 0;
+    const max = this.maxDistance !== undefined ? this.maxDistance : Infinity;
+    return Math.max(min, Math.min(max, currentDistance));
+  }
+
+  /**
+   * Relative stretch or compression beyond the target distance
+   * (0.1 means 10% longer or shorter than allowed).
+   */
+  getStrain(): number {
+    const currentDistance = this.point1.position.distance(this.point2.position);
+    const targetDistance = this.getTargetDistance(currentDistance);
+    
+    if (targetDistance === 0) return currentDistance === 0 ? 0 : Infinity;
+    
+    return Math.abs(currentDistance - targetDistance) / targetDistance;
   }
 
   solve(): void {
@@ -20,22 +83,102 @@ export class DistanceConstraint {
     
     if (currentDistance === 0) return; // Avoid division by zero
     
-    const difference = (this.distance - currentDistance) / currentDistance;
-    const offsetX = dx * difference * 0.5 * this.stiffness;
-    const offsetY = dy * difference * 0.5 * this.stiffness;
-    
-    // Apply constraints based on whether points are fixed
-    if (!this.point1.fixed && !this.point2.fixed) {
-      this.point1.position.x -= offsetX;
-      this.point1.position.y -= offsetY;
-      this.point2.position.x += offsetX;
-      this.point2.position.y += offsetY;
-    } else if (!this.point1.fixed) {
-      this.point1.position.x -= offsetX * 2;
-      this.point1.position.y -= offsetY * 2;
-    } else if (!this.point2.fixed) {
-      this.point2.position.x += offsetX * 2;
-      this.point2.position.y += offsetY * 2;
+    const targetDistance = this.getTargetDistance(currentDistance);
+    if (targetDistance === currentDistance) return;
+    
+    // Distribute the correction by inverse mass (fixed points don't move)
+    const w1 = this.point1.inverseMass;
+    const w2 = this.point2.inverseMass;
+    const wSum = w1 + w2;
+    
+    if (wSum === 0) return;
+    
+    const difference = (targetDistance - currentDistance) / currentDistance;
+    const offsetX = dx * difference * this.stiffness / wSum;
+    const offsetY = dy * difference * this.stiffness / wSum;
+    
+    this.point1.position.x -= offsetX * w1;
+    this.point1.position.y -= offsetY * w1;
+    this.point2.position.x += offsetX * w2;
+    this.point2.position.y += offsetY * w2;
+  }
+
+  /**
+   * XPBD variant of `solve`: the constraint is enforced with the physical
+   * `compliance` (inverse stiffness, in m/N) so the result does not depend on the
+   * iteration count or timestep. Call `resetLambda` at the start of every step.
+   */
+  solveXPBD(dt: number): void {
+    const dx = this.point2.position.x - this.point1.position.x;
+    const dy = this.point2.position.y - this.point1.position.y;
+    const currentDistance = Math.sqrt(dx * dx + dy * dy);
+    
+    if (currentDistance === 0) return; // Avoid division by zero
+    
+    const targetDistance = this.getTargetDistance(currentDistance);
+    if (targetDistance === currentDistance) return;
+    
+    const w1 = this.point1.inverseMass;
+    const w2 = this.point2.inverseMass;
+    const alpha = this.compliance / (dt * dt);
+    const denominator = w1 + w2 + alpha;
+    
+    if (denominator === 0) return;
+    
+    const c = currentDistance - targetDistance;
+    const deltaLambda = (-c - alpha * this.lambda) / denominator;
+    this.lambda += deltaLambda;
+    
+    const offsetX = dx / currentDistance * deltaLambda;
+    const offsetY = dy / currentDistance * deltaLambda;
+    
+    this.point1.position.x -= offsetX * w1;
+    this.point1.position.y -= offsetY * w1;
+    this.point2.position.x += offsetX * w2;
+    this.point2.position.y += offsetY * w2;
+  }
+
+  resetLambda(): void {
+    this.lambda = 0;
+  }
+
+  getPoints(): Point[] {
+    return [this.point1, this.point2];
+  }
+
+  toJSON(): DistanceConstraintJSON {
+    const json: DistanceConstraintJSON = {
+      type: 'distance',
+      points: [this.point1.id, this.point2.id],
+      enabled: this.enabled,
+      priority: this.priority,
+      breakThreshold: this.breakThreshold,
+      distance: this.distance,
+      stiffness: this.stiffness,
+      compliance: this.compliance
+    };
+    
+    // Infinity has no JSON representation; a missing bound loads as unbounded
+    if (this.minDistance !== undefined) json.minDistance = this.minDistance;
+    if (this.maxDistance !== undefined && isFinite(this.maxDistance)) json.maxDistance = this.maxDistance;
+    
+    return json;
+  }
+
+  static fromJSON(json: ConstraintJSON, points: Point[]): DistanceConstraint {
+    if (points.length !== 2) {
+      throw new Error(`Invalid distance constraint: ${points.length} points`);
     }
+    
+    const what = 'distance constraint';
+    const constraint = new DistanceConstraint(points[0], points[1], readNumber(json, 'distance', what), readNumber(json, 'stiffness', what), {
+      compliance: readNumber(json, 'compliance', what),
+      priority: json.priority,
+      minDistance: readOptionalNumber(json, 'minDistance', what),
+      maxDistance: readOptionalNumber(json, 'maxDistance', what),
+      breakThreshold: json.breakThreshold
+    });
+    constraint.enabled = json.enabled;
+    return constraint;
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { Chain } from '../core/Chain';
+import { Point } from '../core/Point';
+import { Equations } from '../parametric/Equations';
+import { Vector2D } from '../utils/Vector';
+import { PathConstraint } from './PathConstraint';
+
+describe('PathConstraint', () => {
+  it('keeps a point on the closest point of the curve in snap mode', () => {
+    const chain = new Chain(new Vector2D(0, 10));
+    chain.addPoint(new Point(0, -5));
+    chain.addPathConstraint(0, Equations.circle(0, 0, 10));
+    
+    for (let i = 0; i < 60; i++) chain.update(1 / 60);
+    
+    expect(chain.points[0].position.length()).toBeCloseTo(10, 1);
+  });
+  
+  it('drives the fixed head of a chain along the curve in follow mode', () => {
+    const chain = new Chain(new Vector2D(0, 10), { integration: 'verlet' });
+    chain.createChain(200, 200, 8, 10);
+    const head = chain.points[0];
+    const curve = Equations.lissajous(200, 200, 100, 80, 1, 2);
+    const path = chain.addPathConstraint(0, curve, { mode: 'follow', speed: 0.25 });
+    
+    for (let i = 0; i < 60; i++) chain.update(1 / 60);
+    
+    const target = curve.getPointAt(path.t);
+    expect(path.t).toBeCloseTo(0.25, 5);
+    expect(head.fixed).toBe(true);
+    expect(head.position.x).toBeCloseTo(target.x);
+    expect(head.position.y).toBeCloseTo(target.y);
+    expect(head.velocity.length()).toBeGreaterThan(0);
+    
+    // The body trails behind the head, stretching a little
+    expect(chain.points[1].position.distance(head.position)).toBeLessThan(11);
+  });
+  
+  it('leaves kinematic points to their driver', () => {
+    const point = new Point(0, 0);
+    point.setDriver(() => new Vector2D(5, 5));
+    const path = new PathConstraint(point, Equations.circle(0, 0, 10), { mode: 'follow' });
+    
+    point.update(1 / 60, new Vector2D(0, 0));
+    path.update(1 / 60);
+    path.solve();
+    
+    expect(point.position.x).toBe(5);
+    expect(point.position.y).toBe(5);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,152 @@
+import { Point } from '../core/Point';
+import { ParametricCurve } from '../parametric/Equations';
+import { Constraint } from './Constraint';
+
+/**
+ * - `snap`: the point may slide freely but is kept on the curve at its closest point.
+ * - `follow`: the point is driven along the curve as `t` advances at `speed`. A fixed
+ *   point, such as the head of `Chain.createChain`, is moved there directly.
+ */
+export type PathMode = 'snap' | 'follow';
+
+export interface PathConstraintOptions {
+  mode?: PathMode;
+  t?: number;
+  speed?: number;
+  tStart?: number;
+  tEnd?: number;
+  loop?: boolean;
+  stiffness?: number;
+  samples?: number;
+  priority?: number;
+}
+
+/**
+ * Pins a point to a `ParametricCurve`, connecting parametric motion with the physics
+ * solver: a chain head can follow a lissajous path while the body trails behind.
+ */
+export class PathConstraint implements Constraint {
+  public point: Point;
+  public curve: ParametricCurve;
+  public mode: PathMode;
+  public t: number;
+  public speed: number;
+  public tStart: number;
+  public tEnd: number;
+  public loop: boolean;
+  public stiffness: number;
+  public samples: number;
+  public enabled: boolean;
+  public priority: number;
+
+  constructor(point: Point, curve: ParametricCurve, options: PathConstraintOptions = {}) {
+    this.point = point;
+    this.curve = curve;
+    this.mode = options.mode || 'snap';
+    this.tStart = options.tStart !== undefined ? options.tStart : 0;
+    this.tEnd = options.tEnd !== undefined ? options.tEnd : 1;
+    this.speed = options.speed !== undefined ? options.speed : 0.1;
+    this.loop = options.loop !== undefined ? options.loop : true;
+    this.stiffness = options.stiffness !== undefined ? options.stiffness : 1;
+    this.samples = options.samples || 64;
+    this.enabled = true;
+    this.priority = options.priority !== undefined ? options.priority : 3;
+    this.t = options.t !== undefined
+      ? options.t
+      : this.mode === 'snap'
+        ? curve.getClosestT(point.position, this.tStart, this.tEnd, this.samples)
+        : this.tStart;
+  }
+
+  update(dt: number): void {
+    if (this.mode === 'follow') {
+      this.t = this.wrapT(this.t + this.speed * dt);
+      
+      // Constraints don't move fixed points, so drive the anchor along the curve
+      // and let it pass its motion on. Kinematic points follow their own driver
+      if (this.point.fixed && !this.point.kinematic) {
+        this.moveAnchor(dt);
+      }
+    } else {
+      // Global search once per step; `solve` only refines locally
+      this.t = this.curve.getClosestT(this.point.position, this.tStart, this.tEnd, this.samples);
+    }
+  }
+
+  solve(): void {
+    if (this.point.inverseMass === 0) return;
+    
+    if (this.mode === 'snap') {
+      const window = (this.tEnd - this.tStart) / this.samples;
+      this.t = this.curve.getClosestT(
+        this.point.position,
+        this.clampT(this.t - window),
+        this.clampT(this.t + window),
+        4
+      );
+    }
+    
+    const target = this.curve.getPointAt(this.t);
+    this.point.position.x += (target.x - this.point.position.x) * this.stiffness;
+    this.point.position.y += (target.y - this.point.position.y) * this.stiffness;
+  }
+
+  getPoints(): Point[] {
+    return [this.point];
+  }
+
+  saveState(): number {
+    return this.t;
+  }
+
+  restoreState(state: unknown): void {
+    if (typeof state !== 'number') {
+      throw new Error(`Invalid path state: ${String(state)}`);
+    }
+    this.t = state;
+  }
+
+  render(ctx: CanvasRenderingContext2D): void {
+    const points = this.curve.getPoints(this.samples, this.tStart, this.tEnd);
+    
+    ctx.strokeStyle = 'rgba(0, 0, 255, 0.2)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    points.forEach((p, i) => {
+      if (i === 0) {
+        ctx.moveTo(p.x, p.y);
+      } else {
+        ctx.lineTo(p.x, p.y);
+      }
+    });
+    ctx.stroke();
+  }
+
+  private moveAnchor(dt: number): void {
+    const target = this.curve.getPointAt(this.t);
+    
+    this.point.prevPosition.copy(this.point.position);
+    this.point.position.set(target.x, target.y);
+    if (dt > 0) {
+      this.point.velocity.set(
+        (target.x - this.point.prevPosition.x) / dt,
+        (target.y - this.point.prevPosition.y) / dt
+      );
+    }
+  }
+
+  private wrapT(t: number): number {
+    if (!this.loop) return this.clampT(t);
+    
+    const range = this.tEnd - this.tStart;
+    if (range === 0) return this.tStart;
+    
+    return this.tStart + ((((t - this.tStart) % range) + range) % range);
+  }
+
+  private clampT(t: number): number {
+    const min = Math.min(this.tStart, this.tEnd);
+    const max = Math.max(this.tStart, this.tEnd);
+    return Math.max(min, Math.min(max, t));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { Point } from '../core/Point';
+import { ShapeMatchingConstraint } from './ShapeMatchingConstraint';
+
+describe('ShapeMatchingConstraint', () => {
+  it('springs back to its rest shape', () => {
+    const points = [new Point(0, 0), new Point(2, 0), new Point(1, 2)];
+    const constraint = new ShapeMatchingConstraint(points, { stiffness: 0.5 });
+    points[2].position.set(1, 0.5);
+    
+    for (let i = 0; i < 30; i++) constraint.solve();
+    
+    expect(points[0].position.distance(points[1].position)).toBeCloseTo(2, 3);
+    expect(points[2].position.distance(points[0].position)).toBeCloseTo(Math.sqrt(5), 3);
+  });
+  
+  it('lets the group move and rotate freely', () => {
+    const points = [new Point(0, 0), new Point(2, 0), new Point(2, 2), new Point(0, 2)];
+    const constraint = new ShapeMatchingConstraint(points, { stiffness: 1 });
+    
+    // Turn the square a quarter around its centre and shift it
+    points.forEach((point) => point.position.set(6 - point.position.y, point.position.x + 3));
+    const before = points.map((point) => point.position.clone());
+    constraint.solve();
+    
+    points.forEach((point, i) => {
+      expect(point.position.x).toBeCloseTo(before[i].x);
+      expect(point.position.y).toBeCloseTo(before[i].y);
+    });
+  });
+  
+  it('takes the current layout as the new rest shape', () => {
+    const points = [new Point(0, 0), new Point(2, 0), new Point(1, 2)];
+    const constraint = new ShapeMatchingConstraint(points, { stiffness: 1 });
+    points[2].position.set(1, 4);
+    
+    constraint.setRestShape();
+    constraint.solve();
+    
+    expect(points[2].position.y).toBeCloseTo(4);
+  });
+});
\ No newline at end of file
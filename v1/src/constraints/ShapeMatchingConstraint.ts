@@ -0,0 +1,120 @@
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { Constraint } from './Constraint';
+import { ConstraintJSON, ShapeMatchingConstraintJSON, readArray, readNumber, readObject } from '../serialization/Schema';
+
+export interface ShapeMatchingOptions {
+  stiffness?: number;
+  priority?: number;
+}
+
+/**
+ * Pulls a group of points towards a rigidly moved copy of their rest shape. The
+ * best-fitting translation and rotation are found on every solve, so the group can
+ * tumble freely while its shape springs back.
+ */
+export class ShapeMatchingConstraint implements Constraint {
+  public points: Point[];
+  // Rest positions relative to the rest centre of mass
+  public restOffsets: Vector2D[];
+  public stiffness: number;
+  public enabled: boolean;
+  public priority: number;
+
+  constructor(points: Point[], options: ShapeMatchingOptions = {}) {
+    this.points = points;
+    this.stiffness = options.stiffness !== undefined ? options.stiffness : 0.1;
+    this.enabled = true;
+    this.priority = options.priority !== undefined ? options.priority : 2;
+    this.restOffsets = [];
+    this.setRestShape();
+  }
+
+  /**
+   * Takes the points' current layout as the new rest shape.
+   */
+  setRestShape(): void {
+    const center = this.calculateCenter();
+    this.restOffsets = this.points.map((point) => point.position.clone().subtract(center));
+  }
+
+  solve(): void {
+    const center = this.calculateCenter();
+    
+    // Optimal 2D rotation from the rest offsets onto the current ones
+    let dot = 0;
+    let cross = 0;
+    for (let i = 0; i < this.points.length; i++) {
+      const rest = this.restOffsets[i];
+      const x = this.points[i].position.x - center.x;
+      const y = this.points[i].position.y - center.y;
+      const w = this.points[i].mass;
+      
+      dot += w * (rest.x * x + rest.y * y);
+      cross += w * (rest.x * y - rest.y * x);
+    }
+    
+    const angle = Math.atan2(cross, dot);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    
+    for (let i = 0; i < this.points.length; i++) {
+      const point = this.points[i];
+      if (point.inverseMass === 0) continue;
+      
+      const rest = this.restOffsets[i];
+      const goalX = center.x + rest.x * cos - rest.y * sin;
+      const goalY = center.y + rest.x * sin + rest.y * cos;
+      
+      point.position.x += (goalX - point.position.x) * this.stiffness;
+      point.position.y += (goalY - point.position.y) * this.stiffness;
+    }
+  }
+
+  getPoints(): Point[] {
+    return this.points;
+  }
+
+  toJSON(): ShapeMatchingConstraintJSON {
+    return {
+      type: 'shapeMatching',
+      points: this.points.map((point) => point.id),
+      enabled: this.enabled,
+      priority: this.priority,
+      stiffness: this.stiffness,
+      restOffsets: this.restOffsets.map((offset) => ({ x: offset.x, y: offset.y }))
+    };
+  }
+
+  static fromJSON(json: ConstraintJSON, points: Point[]): ShapeMatchingConstraint {
+    const what = 'shape matching constraint';
+    const restOffsets = readArray(json, 'restOffsets', what);
+    if (restOffsets.length !== points.length) {
+      throw new Error(`Invalid ${what}: ${restOffsets.length} rest offsets for ${points.length} points`);
+    }
+    
+    const constraint = new ShapeMatchingConstraint(points, {
+      stiffness: readNumber(json, 'stiffness', what),
+      priority: json.priority
+    });
+    constraint.enabled = json.enabled;
+    constraint.restOffsets = restOffsets.map((value) => {
+      const offset = readObject(value, 'rest offset');
+      return new Vector2D(readNumber(offset, 'x', 'rest offset'), readNumber(offset, 'y', 'rest offset'));
+    });
+    return constraint;
+  }
+
+  private calculateCenter(): Vector2D {
+    const center = new Vector2D(0, 0);
+    let totalMass = 0;
+    
+    for (const point of this.points) {
+      center.x += point.position.x * point.mass;
+      center.y += point.position.y * point.mass;
+      totalMass += point.mass;
+    }
+    
+    return center.divideScalar(totalMass);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,335 @@
+import { Chain } from './Chain';
+import { Point } from './Point';
+import { Vector2D } from '../utils/Vector';
+import { WindField } from '../forces/WindField';
+import { ChainJSON } from '../serialization/Schema';
+import { Equations } from '../parametric/Equations';
+
+// A pendulum: a pinned point and a bob one unit below it
+const createPendulum = (chain: Chain): Point => {
+  chain.addPoint(new Point(0, 0, { fixed: true }));
+  chain.addPoint(new Point(0, 1));
+  chain.addDistanceConstraint(0, 1, 1);
+  return chain.points[1];
+};
+
+describe('Chain', () => {
+  describe('integration', () => {
+    it('keeps constraint corrections as motion in verlet mode', () => {
+      const chain = new Chain(new Vector2D(0, 10), { integration: 'verlet' });
+      const bob = createPendulum(chain);
+      
+      for (let i = 0; i < 60; i++) chain.update(1 / 60);
+      
+      // The rod stops the fall, so the bob does not gain speed
+      expect(bob.position.distance(chain.points[0].position)).toBeCloseTo(1, 2);
+      expect(Math.abs(bob.velocity.y)).toBeLessThan(0.5);
+    });
+    
+    it('integrates velocity from forces only in explicit mode', () => {
+      const chain = new Chain(new Vector2D(0, 10), { integration: 'explicit' });
+      const bob = createPendulum(chain);
+      
+      for (let i = 0; i < 60; i++) chain.update(1 / 60);
+      
+      expect(bob.position.distance(chain.points[0].position)).toBeCloseTo(1, 2);
+      expect(bob.velocity.y).toBeCloseTo(10, 1);
+    });
+  });
+  
+  describe('stepping', () => {
+    it('advances in fixed steps and interpolates the render position', () => {
+      const chain = new Chain(new Vector2D(0, 10), { fixedTimeStep: 0.1 });
+      const point = chain.points[chain.addPoint(new Point(0, 0))];
+      
+      chain.update(0.05);
+      expect(point.position.y).toBe(0);
+      expect(chain.time).toBe(0);
+      
+      chain.update(0.1);
+      // One step of 0.1 s has run, with 0.05 s left over
+      expect(chain.time).toBeCloseTo(0.1);
+      expect(point.position.y).toBeCloseTo(0.1);
+      expect(point.renderPosition.y).toBeCloseTo(0.05);
+    });
+    
+    it('splits each step into substeps', () => {
+      const chain = new Chain(new Vector2D(0, 10), { substeps: 4 });
+      const point = chain.points[chain.addPoint(new Point(0, 0))];
+      chain.update(1);
+      
+      // Four semi-implicit Euler steps of 0.25 s
+      expect(point.velocity.y).toBeCloseTo(10);
+      expect(point.position.y).toBeCloseTo(10 * 0.25 * 0.25 * (1 + 2 + 3 + 4));
+    });
+  });
+  
+  describe('xpbd', () => {
+    it('keeps a rigid rod with zero compliance', () => {
+      const chain = new Chain(new Vector2D(0, 10), { solver: 'xpbd' });
+      const bob = createPendulum(chain);
+      
+      for (let i = 0; i < 60; i++) chain.update(1 / 60);
+      
+      expect(bob.position.distance(chain.points[0].position)).toBeCloseTo(1, 3);
+    });
+    
+    it('skips empty steps', () => {
+      const chain = new Chain(new Vector2D(0, 10), { solver: 'xpbd' });
+      const bob = createPendulum(chain);
+      bob.position.set(0, 2);
+      chain.update(0);
+      
+      expect(bob.position.x).toBe(0);
+      expect(bob.position.y).toBe(2);
+    });
+  });
+  
+  describe('tearing', () => {
+    it('removes overstrained constraints and reports them', () => {
+      const chain = new Chain(new Vector2D(0, 0));
+      chain.addPoint(new Point(0, 0, { fixed: true }));
+      chain.addPoint(new Point(1, 0));
+      const link = chain.addDistanceConstraint(0, 1, 1, { breakThreshold: 0.5 });
+      link.stiffness = 0;
+      
+      const events: number[] = [];
+      const unsubscribe = chain.onConstraintBreak((event) => events.push(event.strain));
+      
+      chain.points[1].position.set(1.2, 0);
+      chain.update(1 / 60);
+      expect(chain.distanceConstraints).toContain(link);
+      
+      chain.points[1].position.set(2, 0);
+      chain.update(1 / 60);
+      expect(chain.distanceConstraints).not.toContain(link);
+      expect(link.broken).toBe(true);
+      expect(events.length).toBe(1);
+      expect(events[0]).toBeCloseTo(1);
+      
+      unsubscribe();
+      chain.addDistanceConstraint(0, 1, 0.1, { breakThreshold: 0.5 }).stiffness = 0;
+      chain.update(1 / 60);
+      expect(events.length).toBe(1);
+    });
+  });
+  
+  describe('collisions', () => {
+    it('keeps distant parts of a chain from overlapping but lets neighbours touch', () => {
+      const chain = new Chain(new Vector2D(0, 0), { selfCollision: true, collisionNeighborDistance: 1 });
+      chain.addPoint(new Point(0, 0, { bodySize: 1 }));
+      chain.addPoint(new Point(1, 0, { bodySize: 1 }));
+      chain.addPoint(new Point(1.5, 0, { bodySize: 1 }));
+      chain.addDistanceConstraint(0, 1, 1).stiffness = 0;
+      chain.addDistanceConstraint(1, 2, 0.5).stiffness = 0;
+      chain.update(1 / 60);
+      
+      // Linked neighbours keep their overlap; the ends are two links apart
+      expect(chain.points[1].position.x).toBeCloseTo(1);
+      expect(chain.points[2].position.x - chain.points[0].position.x).toBeGreaterThan(1.99);
+    });
+    
+    it('collides with the points of other chains', () => {
+      const a = new Chain(new Vector2D(0, 0));
+      const b = new Chain(new Vector2D(0, 0));
+      a.addPoint(new Point(0, 0, { bodySize: 1, fixed: true }));
+      b.addPoint(new Point(0.5, 0, { bodySize: 1 }));
+      
+      b.update(1 / 60);
+      expect(b.points[0].position.x).toBe(0.5);
+      
+      b.addCollisionChain(a);
+      b.update(1 / 60);
+      expect(b.points[0].position.x).toBeCloseTo(2);
+    });
+  });
+  
+  describe('insertPointBetween', () => {
+    it('splits a signed joint range evenly around straight', () => {
+      const chain = new Chain(new Vector2D(0, 0));
+      chain.addPoint(new Point(0, 0, { fixed: true }));
+      chain.addPoint(new Point(10, 0));
+      chain.addPoint(new Point(20, 0));
+      chain.addDistanceConstraint(0, 1, 10);
+      chain.addDistanceConstraint(1, 2, 10);
+      chain.addAngleConstraint(0, 1, 2, Math.PI / 2, Math.PI, { signed: true });
+      
+      const point = chain.insertPointBetween(1, 2);
+      const joint = chain.angleConstraints[1];
+      
+      expect(joint.point2).toBe(point);
+      expect(joint.signed).toBe(true);
+      expect(joint.minAngle).toBeCloseTo(Math.PI * 3 / 4);
+      expect(joint.maxAngle).toBeCloseTo(-Math.PI * 3 / 4);
+      
+      // The new joint starts out straight, inside its range
+      expect(joint.getStrain()).toBe(0);
+    });
+  });
+  
+  describe('sleeping', () => {
+    // A pendulum hanging at rest, which falls asleep after half a second
+    const createSleepingPendulum = (gravity: Vector2D = new Vector2D(0, 10)): [Chain, Point] => {
+      const chain = new Chain(gravity, { allowSleep: true, sleepTime: 0.5 });
+      const bob = createPendulum(chain);
+      for (let i = 0; i < 60; i++) chain.update(1 / 60);
+      return [chain, bob];
+    };
+    
+    it('puts resting islands to sleep', () => {
+      const [chain, bob] = createSleepingPendulum();
+      
+      expect(chain.isSleeping()).toBe(true);
+      expect(bob.sleeping).toBe(true);
+      
+      // Sleeping points aren't simulated
+      const position = bob.position.clone();
+      chain.update(1 / 60);
+      expect(bob.position).toEqual(position);
+    });
+    
+    it('wakes up when gravity changes', () => {
+      // The chain keeps the gravity vector it was given
+      const gravity = new Vector2D(0, 10);
+      const [chain, bob] = createSleepingPendulum(gravity);
+      
+      gravity.set(10, 10);
+      chain.update(1 / 60);
+      
+      expect(chain.isSleeping()).toBe(false);
+      expect(bob.position.x).toBeGreaterThan(0);
+    });
+    
+    it('wakes up when a force is applied', () => {
+      const [chain, bob] = createSleepingPendulum();
+      
+      bob.applyForce(new Vector2D(100, 0));
+      chain.update(1 / 60);
+      
+      expect(bob.sleeping).toBe(false);
+      expect(bob.position.x).toBeGreaterThan(0);
+    });
+    
+    it('wakes up when a force field changes', () => {
+      const [chain, bob] = createSleepingPendulum();
+      const wind = chain.addForceField(new WindField(new Vector2D(1, 0), 0));
+      chain.update(1 / 60);
+      expect(bob.sleeping).toBe(true);
+      
+      wind.strength = 50;
+      chain.update(1 / 60);
+      
+      expect(bob.sleeping).toBe(false);
+    });
+    
+    it('keeps separate islands apart', () => {
+      const chain = new Chain(new Vector2D(0, 10), { allowSleep: true, sleepTime: 0.5 });
+      const resting = createPendulum(chain);
+      chain.addPoint(new Point(5, 0, { fixed: true }));
+      chain.addPoint(new Point(6, 0));
+      chain.addDistanceConstraint(2, 3, 1);
+      const swinging = chain.points[3];
+      
+      for (let i = 0; i < 60; i++) chain.update(1 / 60);
+      
+      expect(chain.islands.length).toBe(2);
+      expect(resting.sleeping).toBe(true);
+      expect(swinging.sleeping).toBe(false);
+    });
+  });
+  
+  describe('serialization', () => {
+    it('round-trips points, constraints and configuration', () => {
+      const chain = new Chain(new Vector2D(0, 10), { integration: 'verlet', solver: 'xpbd', substeps: 2 });
+      chain.createChain(0, 0, 5, 10, 2, { angleMode: 'spring' });
+      chain.addAngleConstraint(0, 1, 2, Math.PI / 2, Math.PI, { signed: true });
+      chain.addDistanceConstraint(0, 4, undefined, { maxDistance: 45 });
+      chain.points[3].mass = 2;
+      for (let i = 0; i < 10; i++) chain.update(1 / 60);
+      
+      const json = chain.toJSON();
+      const loaded = Chain.fromJSON(JSON.stringify(json));
+      
+      expect(loaded.toJSON()).toEqual(json);
+      expect(loaded.points.map((point) => point.id)).toEqual(chain.points.map((point) => point.id));
+      
+      // The loaded chain carries on exactly like the original
+      for (let i = 0; i < 30; i++) {
+        chain.update(1 / 60);
+        loaded.update(1 / 60);
+      }
+      expect(loaded.points[4].position.x).toBeCloseTo(chain.points[4].position.x, 10);
+      expect(loaded.points[4].position.y).toBeCloseTo(chain.points[4].position.y, 10);
+    });
+    
+    it('rejects malformed scenes', () => {
+      const json = new Chain(new Vector2D(0, 10)).toJSON();
+      const point = new Point(0, 0).toJSON();
+      
+      expect(() => Chain.fromJSON({ ...json, gravity: { x: 0 } } as unknown as ChainJSON))
+        .toThrow('Invalid chain gravity: y is undefined');
+      expect(() => Chain.fromJSON({ ...json, points: [{ ...point, mass: '1' }] } as unknown as ChainJSON))
+        .toThrow('Invalid point: mass is 1');
+      expect(() => Chain.fromJSON({ ...json, config: { substeps: 'many' } } as unknown as ChainJSON))
+        .toThrow('substeps is many');
+    });
+  });
+  
+  describe('snapshot', () => {
+    it('brings back torn links and path progress', () => {
+      const chain = new Chain(new Vector2D(0, 100), { integration: 'verlet' });
+      chain.createChain(0, 0, 5, 10);
+      const path = chain.addPathConstraint(0, Equations.circle(0, 50, 50), { mode: 'follow', t: 0.75 });
+      for (let i = 0; i < 10; i++) chain.update(1 / 60);
+      
+      const snapshot = chain.snapshot();
+      const positions = chain.points.map((point) => point.position.clone());
+      const t = path.t;
+      
+      chain.distanceConstraints[2].breakThreshold = 0;
+      for (let i = 0; i < 10; i++) chain.update(1 / 60);
+      expect(chain.distanceConstraints.length).toBe(3);
+      
+      chain.restore(snapshot);
+      
+      expect(chain.distanceConstraints.length).toBe(4);
+      expect(chain.distanceConstraints[2].broken).toBe(false);
+      expect(path.t).toBe(t);
+      expect(chain.points.map((point) => point.position)).toEqual(positions);
+    });
+    
+    it('repeats the same steps bit for bit', () => {
+      const chain = new Chain(new Vector2D(0, 100), { solver: 'xpbd', fixedTimeStep: 1 / 60 });
+      chain.createChain(0, 0, 6, 10);
+      chain.update(0.03);
+      
+      const snapshot = chain.snapshot();
+      const run = () => {
+        for (let i = 0; i < 20; i++) chain.update(0.021);
+        return chain.points.map((point) => point.renderPosition.clone());
+      };
+      const first = run();
+      chain.restore(snapshot);
+      
+      expect(run()).toEqual(first);
+    });
+    
+    it('restores sleeping islands', () => {
+      const chain = new Chain(new Vector2D(0, 10), { allowSleep: true, sleepTime: 0.5 });
+      const bob = createPendulum(chain);
+      for (let i = 0; i < 60; i++) chain.update(1 / 60);
+      
+      const snapshot = chain.snapshot();
+      bob.applyImpulse(new Vector2D(5, 0));
+      chain.update(1 / 60);
+      expect(bob.sleeping).toBe(false);
+      
+      chain.restore(snapshot);
+      
+      expect(bob.sleeping).toBe(true);
+      expect(chain.isSleeping()).toBe(true);
+      chain.update(1 / 60);
+      expect(chain.isSleeping()).toBe(true);
+    });
+  });
+});
\ No newline at end of file
@@ -1,27 +1,567 @@
-import { Point } from './Point';
-import { DistanceConstraint } from '../constraints/DistanceConstraint';
-import { AngleConstraint } from '../constraints/AngleConstraint';
+import { Island, IslandState, buildIslands } from './Island';
+import { Point, PointState, IntegrationMode } from './Point';
+import { DistanceConstraint, DistanceConstraintOptions } from '../constraints/DistanceConstraint';
+import { AngleConstraint, AngleConstraintOptions } from '../constraints/AngleConstraint';
+import { AngularSpringConstraint, AngularSpringOptions } from '../constraints/AngularSpringConstraint';
+import { Constraint } from '../constraints/Constraint';
+import { PathConstraint, PathConstraintOptions } from '../constraints/PathConstraint';
+import { ParametricCurve } from '../parametric/Equations';
 import { Vector2D } from '../utils/Vector';
+import { runFixedSteps } from '../utils/FixedStep';
+import { ForceField } from '../forces/ForceField';
+import { wrapAngle } from '../utils/Angle';
+import { canCollide, resolvePointCollision } from '../collision/PointCollision';
+import { Collider, Contact, applyContactResponse } from '../collision/Collider';
+import { SpatialHash } from '../collision/SpatialHash';
+import {
+  ChainJSON,
+  ConstraintJSON,
+  PointJSON,
+  SCENE_VERSION,
+  migrateScene,
+  readArray,
+  readObject,
+  readOptionalBoolean,
+  readOptionalNumber,
+  readVector
+} from '../serialization/Schema';
+import { constraintFromJSON } from '../serialization/ConstraintTypes';
+
+/**
+ * - `pbd`: constraints are relaxed with their dimensionless `stiffness`.
+ * - `xpbd`: constraints use their physical `compliance`, independent of the
+ *   iteration count and timestep.
+ */
+export type SolverMode = 'pbd' | 'xpbd';
+
+export interface ConstraintBreakEvent {
+  constraint: Constraint;
+  strain: number;
+}
+
+export type ConstraintBreakListener = (event: ConstraintBreakEvent) => void;
+
+/**
+ * A point in a chain, given either as the `Point` itself or by its index.
+ */
+export type PointRef = Point | number;
+
+export interface InsertPointOptions {
+  point?: Point;
+}
+
+export interface MergeOptions {
+  from?: PointRef;
+  to?: PointRef;
+  distance?: number;
+}
+
+export interface CreateChainOptions {
+  angleMode?: 'limit' | 'spring';
+  curvature?: number;
+  wavelength?: number;
+  springStiffness?: number;
+  springDamping?: number;
+}
+
+export interface ChainConfig {
+  integration?: IntegrationMode;
+  solver?: SolverMode;
+  substeps?: number;
+  fixedTimeStep?: number;
+  maxSteps?: number;
+  selfCollision?: boolean;
+  collisionNeighborDistance?: number;
+  collisionCellSize?: number;
+  allowSleep?: boolean;
+  sleepSpeed?: number;
+  sleepTime?: number;
+}
+
+/**
+ * Everything that changes while a chain is simulated, captured by `Chain.snapshot`.
+ * Snapshots refer to the chain's own points and constraints, so they can only be
+ * restored into the chain they were taken from; use `toJSON` to save a chain.
+ */
+export interface ChainSnapshot {
+  time: number;
+  accumulator: number;
+  gravity: Vector2D;
+  points: Point[];
+  pointStates: PointState[];
+  distanceConstraints: DistanceConstraint[];
+  angleConstraints: AngleConstraint[];
+  angularSprings: AngularSpringConstraint[];
+  constraints: Constraint[];
+  constraintStates: Map<Constraint, { enabled: boolean, broken?: boolean, state?: unknown }>;
+  islands: Island[];
+  islandStates: IslandState[];
+  pointIslands: Map<Point, Island>;
+  constraintIslands: Map<Constraint, Island>;
+  islandsCurrent: boolean;
+}
 
 export class Chain {
   public points: Point[];
   public distanceConstraints: DistanceConstraint[];
   public angleConstraints: AngleConstraint[];
+  public angularSprings: AngularSpringConstraint[];
+  public constraints: Constraint[];
+  public forceFields: ForceField[];
+  public integration: IntegrationMode;
+  public solver: SolverMode;
+  public substeps: number;
+  public fixedTimeStep: number;
+  public maxSteps: number;
+  public selfCollision: boolean;
+  public collisionNeighborDistance: number;
+  public collisionChains: Chain[];
+  public colliders: Collider[];
+  public collisionCellSize: number;
+  public spatialHash: SpatialHash;
+  public allowSleep: boolean;
+  public sleepSpeed: number;
+  public sleepTime: number;
+  public islands: Island[];
+  public time: number;
   private gravity: Vector2D;
+  private accumulator: number;
+  private breakListeners: ConstraintBreakListener[];
+  private spatialHashDirty: boolean;
+  private pointIslands: Map<Point, Island>;
+  private constraintIslands: Map<Constraint, Island>;
+  // Bumped by every method that adds or removes points or constraints
+  private topologyVersion: number;
+  // Topology version the islands were built for, -1 when they need a rebuild
+  private islandVersion: number;
   
-  constructor(gravity: Vector2D = new Vector2D(0, 9.8)) {
+  constructor(gravity: Vector2D = new Vector2D(0, 9.8), config: ChainConfig = {}) {
     this.points = [];
     this.distanceConstraints = [];
     this.angleConstraints = [];
+    this.angularSprings = [];
+    this.constraints = [];
+    this.forceFields = [];
     this.gravity = gravity;
+    this.integration = config.integration || 'explicit';
+    this.solver = config.solver || 'pbd';
+    this.substeps = Math.max(1, Math.floor(config.substeps || 1));
+    this.fixedTimeStep = config.fixedTimeStep || 0;
+    this.maxSteps = config.maxSteps || 8;
+    this.selfCollision = config.selfCollision || false;
+    this.collisionNeighborDistance = config.collisionNeighborDistance !== undefined
+      ? config.collisionNeighborDistance
+      : 1;
+    this.collisionChains = [];
+    this.colliders = [];
+    this.collisionCellSize = config.collisionCellSize || 0;
+    this.spatialHash = new SpatialHash(this.collisionCellSize || 1);
+    this.spatialHashDirty = true;
+    this.allowSleep = config.allowSleep || false;
+    this.sleepSpeed = config.sleepSpeed !== undefined ? config.sleepSpeed : 0.5;
+    this.sleepTime = config.sleepTime !== undefined ? config.sleepTime : 1;
+    this.islands = [];
+    this.pointIslands = new Map();
+    this.constraintIslands = new Map();
+    this.topologyVersion = 0;
+    this.islandVersion = -1;
+    this.time = 0;
+    this.accumulator = 0;
+    this.breakListeners = [];
   }
 
+  /**
+   * Serializes points, constraints, gravity and configuration. Colliders, force
+   * fields, kinematic drivers and constraints without `toJSON` (such as path
+   * constraints) are not included.
+   */
+  toJSON(): ChainJSON {
+    const constraints: ConstraintJSON[] = [];
+    for (const list of this.getConstraintLists()) {
+      for (const constraint of list) {
+        if (constraint.toJSON) {
+          constraints.push(constraint.toJSON());
+        }
+      }
+    }
+    
+    return {
+      version: SCENE_VERSION,
+      type: 'chain',
+      gravity: { x: this.gravity.x, y: this.gravity.y },
+      config: this.getConfig(),
+      time: this.time,
+      points: this.points.map((point) => point.toJSON()),
+      constraints: constraints
+    };
+  }
+  
+  /**
+   * Loads a chain saved with `toJSON`, migrating older versions first. Accepts the
+   * parsed object or the JSON string.
+   */
+  static fromJSON(json: ChainJSON | string): Chain {
+    const data = migrateScene<ChainJSON>(json, 'chain');
+    const gravity = readVector(data, 'gravity', 'chain');
+    const chain = new Chain(new Vector2D(gravity.x, gravity.y), readConfig(data.config));
+    const byId = new Map<number, Point>();
+    
+    chain.time = readOptionalNumber(data, 'time', 'chain') || 0;
+    for (const pointJSON of readArray(data, 'points', 'chain')) {
+      const point = Point.fromJSON(pointJSON as PointJSON);
+      byId.set(point.id, point);
+      chain.addPoint(point);
+    }
+    
+    const resolve = (id: number): Point => {
+      const point = byId.get(id);
+      if (!point) {
+        throw new Error(`Unknown point id: ${id}`);
+      }
+      return point;
+    };
+    
+    for (const constraintJSON of readArray(data, 'constraints', 'chain')) {
+      const constraint = constraintFromJSON(constraintJSON as ConstraintJSON, resolve);
+      
+      if (constraint instanceof DistanceConstraint) {
+        chain.distanceConstraints.push(constraint);
+      } else if (constraint instanceof AngleConstraint) {
+        chain.angleConstraints.push(constraint);
+      } else if (constraint instanceof AngularSpringConstraint) {
+        chain.angularSprings.push(constraint);
+      } else {
+        chain.constraints.push(constraint);
+      }
+    }
+    
+    return chain;
+  }
+  
+  /**
+   * Captures the full simulation state: point motion, drags, pins and drivers, the
+   * current point and constraint lists (so torn or removed constraints come back),
+   * time, the fixed-step accumulator and sleeping islands. Restoring a snapshot and
+   * repeating the same steps and inputs gives bit-identical results.
+   */
+  snapshot(): ChainSnapshot {
+    const constraintStates = new Map<Constraint, { enabled: boolean, broken?: boolean, state?: unknown }>();
+    for (const list of this.getConstraintLists()) {
+      for (const constraint of list) {
+        constraintStates.set(constraint, {
+          enabled: constraint.enabled,
+          broken: constraint.broken,
+          state: constraint.saveState ? constraint.saveState() : undefined
+        });
+      }
+    }
+    
+    return {
+      time: this.time,
+      accumulator: this.accumulator,
+      gravity: this.gravity.clone(),
+      points: this.points.slice(),
+      pointStates: this.points.map((point) => point.saveState()),
+      distanceConstraints: this.distanceConstraints.slice(),
+      angleConstraints: this.angleConstraints.slice(),
+      angularSprings: this.angularSprings.slice(),
+      constraints: this.constraints.slice(),
+      constraintStates: constraintStates,
+      islands: this.islands,
+      islandStates: this.islands.map((island) => island.saveState()),
+      pointIslands: this.pointIslands,
+      constraintIslands: this.constraintIslands,
+      islandsCurrent: this.islandVersion === this.topologyVersion
+    };
+  }
+  
+  /**
+   * Puts the chain back into the state captured by `snapshot`. Colliders, force
+   * fields and configuration are left as they are.
+   */
+  restore(snapshot: ChainSnapshot): void {
+    this.time = snapshot.time;
+    this.accumulator = snapshot.accumulator;
+    this.gravity.copy(snapshot.gravity);
+    
+    this.points = snapshot.points.slice();
+    snapshot.points.forEach((point, i) => point.restoreState(snapshot.pointStates[i]));
+    
+    this.distanceConstraints = snapshot.distanceConstraints.slice();
+    this.angleConstraints = snapshot.angleConstraints.slice();
+    this.angularSprings = snapshot.angularSprings.slice();
+    this.constraints = snapshot.constraints.slice();
+    snapshot.constraintStates.forEach((saved, constraint) => {
+      constraint.enabled = saved.enabled;
+      constraint.broken = saved.broken;
+      if (constraint.restoreState) {
+        constraint.restoreState(saved.state);
+      }
+    });
+    
+    // Island objects are replaced rather than mutated when rebuilt, so the saved
+    // ones can be reused as they were
+    this.islands = snapshot.islands;
+    snapshot.islands.forEach((island, i) => island.restoreState(snapshot.islandStates[i]));
+    this.pointIslands = snapshot.pointIslands;
+    this.constraintIslands = snapshot.constraintIslands;
+    this.topologyVersion++;
+    this.islandVersion = snapshot.islandsCurrent ? this.topologyVersion : -1;
+    
+    this.spatialHashDirty = true;
+  }
+  
+  getGravity(): Vector2D {
+    return this.gravity;
+  }
+  
   addPoint(point: Point): number {
     this.points.push(point);
+    this.topologyVersion++;
+    this.spatialHashDirty = true;
     return this.points.length - 1;
   }
 
-  addDistanceConstraint(p1Index: number, p2Index: number, distance?: number): void {
+  getPointById(id: number): Point | undefined {
+    for (const point of this.points) {
+      if (point.id === id) return point;
+    }
+    return undefined;
+  }
+  
+  indexOf(point: Point): number {
+    return this.points.indexOf(point);
+  }
+  
+  /**
+   * Inserts a point at `index`, shifting later points back. Constraints are not
+   * changed; see `insertPointBetween` to grow a connected chain.
+   */
+  insertPoint(index: number, point: Point): number {
+    const clamped = Math.max(0, Math.min(this.points.length, index));
+    this.points.splice(clamped, 0, point);
+    this.topologyVersion++;
+    this.spatialHashDirty = true;
+    return clamped;
+  }
+  
+  /**
+   * Removes a point together with every constraint that references it.
+   */
+  removePoint(ref: PointRef): Point {
+    const point = this.resolvePoint(ref);
+    
+    this.points.splice(this.points.indexOf(point), 1);
+    for (const list of this.getConstraintLists()) {
+      removeWhere(list, (constraint) => constraint.getPoints().indexOf(point) !== -1);
+    }
+    
+    this.topologyVersion++;
+    this.spatialHashDirty = true;
+    return point;
+  }
+  
+  /**
+   * All constraints (built-in and custom) that act on `point`.
+   */
+  getConstraintsOf(ref: PointRef): Constraint[] {
+    const point = this.resolvePoint(ref);
+    const result: Constraint[] = [];
+    
+    for (const list of this.getConstraintLists()) {
+      for (const constraint of list) {
+        if (constraint.getPoints().indexOf(point) !== -1) {
+          result.push(constraint);
+        }
+      }
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Inserts a new point halfway between two connected points, splitting the distance
+   * constraints between them in two and rewiring angle constraints and springs so
+   * the chain stays continuous. Returns the new point.
+   */
+  insertPointBetween(ref1: PointRef, ref2: PointRef, options: InsertPointOptions = {}): Point {
+    const a = this.resolvePoint(ref1);
+    const b = this.resolvePoint(ref2);
+    const linked = this.distanceConstraints.some(({ point1, point2 }) =>
+      (point1 === a && point2 === b) || (point1 === b && point2 === a)
+    );
+    if (a === b || !linked) {
+      throw new Error(`Invalid point indices: ${this.points.indexOf(a)}, ${this.points.indexOf(b)}`);
+    }
+    
+    const point = options.point || new Point(
+      (a.position.x + b.position.x) / 2,
+      (a.position.y + b.position.y) / 2,
+      { bodySize: a.bodySize, mass: a.mass }
+    );
+    
+    this.insertPoint(Math.max(this.points.indexOf(a), this.points.indexOf(b)), point);
+    
+    // Split each a-b link into a-point and point-b
+    for (const constraint of this.distanceConstraints.slice()) {
+      const { point1, point2 } = constraint;
+      if (!((point1 === a && point2 === b) || (point1 === b && point2 === a))) continue;
+      
+      const half = (value: number | undefined) => value !== undefined ? value / 2 : undefined;
+      const other = point2;
+      constraint.point2 = point;
+      constraint.distance /= 2;
+      constraint.minDistance = half(constraint.minDistance);
+      constraint.maxDistance = half(constraint.maxDistance);
+      
+      const added = new DistanceConstraint(point, other, constraint.distance, constraint.stiffness, {
+        compliance: constraint.compliance,
+        priority: constraint.priority,
+        minDistance: constraint.minDistance,
+        maxDistance: constraint.maxDistance,
+        breakThreshold: constraint.breakThreshold
+      });
+      this.distanceConstraints.splice(this.distanceConstraints.indexOf(constraint) + 1, 0, added);
+    }
+    
+    // Joints that spanned a-b now end at the new point; the new point gets a joint of its own
+    let angleTemplate: AngleConstraint | null = null;
+    for (const constraint of this.angleConstraints) {
+      if (this.rewireJoint(constraint, a, b, point)) {
+        angleTemplate = angleTemplate || constraint;
+      }
+    }
+    if (angleTemplate) {
+      // The new joint starts out straight, so it gets the template's range of
+      // motion measured from π rather than its limits, which may exclude straight.
+      // A signed range is split evenly around ±π, so its limits wrap
+      const range = angleTemplate.maxAngle - angleTemplate.minAngle;
+      const signed = angleTemplate.signed;
+      const minAngle = signed
+        ? range >= 2 * Math.PI ? -Math.PI : Math.PI - range / 2
+        : Math.PI - Math.min(Math.PI, range);
+      const maxAngle = signed
+        ? range >= 2 * Math.PI ? Math.PI : -Math.PI + range / 2
+        : Math.PI;
+      this.angleConstraints.push(new AngleConstraint(
+        a, point, b,
+        minAngle,
+        maxAngle,
+        angleTemplate.stiffness,
+        {
+          compliance: angleTemplate.compliance,
+          priority: angleTemplate.priority,
+          signed: signed,
+          breakThreshold: angleTemplate.breakThreshold
+        }
+      ));
+    }
+    
+    let springTemplate: AngularSpringConstraint | null = null;
+    for (const constraint of this.angularSprings) {
+      if (this.rewireJoint(constraint, a, b, point)) {
+        springTemplate = springTemplate || constraint;
+      }
+    }
+    if (springTemplate) {
+      this.angularSprings.push(new AngularSpringConstraint(
+        a, point, b,
+        Math.PI,
+        springTemplate.stiffness,
+        springTemplate.damping,
+        {
+          compliance: springTemplate.compliance,
+          priority: springTemplate.priority,
+          breakThreshold: springTemplate.breakThreshold
+        }
+      ));
+    }
+    
+    this.topologyVersion++;
+    return point;
+  }
+  
+  /**
+   * Splits the chain before `ref`: that point and every point after it move to a new
+   * chain with the same settings, along with the constraints among them. Constraints
+   * linking the two halves are removed. Returns the new chain.
+   */
+  split(ref: PointRef): Chain {
+    const index = this.points.indexOf(this.resolvePoint(ref));
+    this.clearIslands();
+    const tail = new Chain(this.gravity.clone(), this.getConfig());
+    const moved = this.points.splice(index);
+    
+    tail.points = moved;
+    tail.forceFields = this.forceFields.slice();
+    tail.colliders = this.colliders.slice();
+    tail.time = this.time;
+    
+    const isMoved = (point: Point) => moved.indexOf(point) !== -1;
+    const ownLists = this.getConstraintLists();
+    const tailLists = tail.getConstraintLists();
+    
+    ownLists.forEach((list, i) => {
+      const kept: Constraint[] = [];
+      
+      for (const constraint of list) {
+        const points = constraint.getPoints();
+        const movedCount = points.filter(isMoved).length;
+        
+        if (movedCount === points.length) {
+          tailLists[i].push(constraint);
+        } else if (movedCount === 0) {
+          kept.push(constraint);
+        }
+      }
+      
+      list.length = 0;
+      list.push(...kept);
+    });
+    
+    this.topologyVersion++;
+    this.spatialHashDirty = true;
+    return tail;
+  }
+  
+  /**
+   * Moves all points and constraints of `other` into this chain, leaving `other`
+   * empty. With `from` (in this chain) and `to` (in `other`) the two are also joined
+   * by a distance constraint.
+   */
+  merge(other: Chain, options: MergeOptions = {}): void {
+    if (other === this) return;
+    
+    this.clearIslands();
+    other.clearIslands();
+    
+    const from = options.from !== undefined ? this.resolvePoint(options.from) : null;
+    const to = options.to !== undefined ? other.resolvePoint(options.to) : null;
+    const ownLists = this.getConstraintLists();
+    
+    other.getConstraintLists().forEach((list, i) => {
+      ownLists[i].push(...list);
+      list.length = 0;
+    });
+    
+    this.points.push(...other.points);
+    other.points = [];
+    other.topologyVersion++;
+    this.topologyVersion++;
+    other.spatialHashDirty = true;
+    this.spatialHashDirty = true;
+    
+    if (from && to) {
+      this.addDistanceConstraint(this.points.indexOf(from), this.points.indexOf(to), options.distance);
+    }
+  }
+  
+  addDistanceConstraint(
+    p1Index: number,
+    p2Index: number,
+    distance?: number,
+    options: DistanceConstraintOptions = {}
+  ): DistanceConstraint {
     const point1 = this.points[p1Index];
     const point2 = this.points[p2Index];
     
@@ -30,10 +570,130 @@ export class Chain {
     }
     
     const targetDistance = distance || point1.position.distance(point2.position);
-    this.distanceConstraints.push(new DistanceConstraint(point1, point2, targetDistance));
+    const constraint = new DistanceConstraint(point1, point2, targetDistance, 1, options);
+    this.distanceConstraints.push(constraint);
+    this.topologyVersion++;
+    return constraint;
+  }
+  
+  addAngleConstraint(
+    p1Index: number,
+    p2Index: number,
+    p3Index: number,
+    minAngle?: number,
+    maxAngle?: number,
+    options: AngleConstraintOptions = {}
+  ): AngleConstraint {
+    const point1 = this.points[p1Index];
+    const point2 = this.points[p2Index];
+    const point3 = this.points[p3Index];
+    
+    if (!point1 || !point2 || !point3) {
+      throw new Error(`Invalid point indices: ${p1Index}, ${p2Index}, ${p3Index}`);
+    }
+    
+    const constraint = new AngleConstraint(point1, point2, point3, minAngle, maxAngle, undefined, options);
+    this.angleConstraints.push(constraint);
+    this.topologyVersion++;
+    return constraint;
+  }
+  
+  /**
+   * Registers a listener called whenever a constraint exceeds its `breakThreshold`
+   * and is removed. Returns a function that unregisters the listener.
+   */
+  onConstraintBreak(listener: ConstraintBreakListener): () => void {
+    this.breakListeners.push(listener);
+    return () => {
+      const index = this.breakListeners.indexOf(listener);
+      if (index !== -1) {
+        this.breakListeners.splice(index, 1);
+      }
+    };
   }
   
-  addAngleConstraint(p1Index: number, p2Index: number, p3Index: number, minAngle?: number, maxAngle?: number): void {
+  /**
+   * Makes this chain's points collide with another chain's points. Only register
+   * the pair on one of the two chains.
+   */
+  addCollisionChain(other: Chain): void {
+    if (other !== this && this.collisionChains.indexOf(other) === -1) {
+      this.collisionChains.push(other);
+    }
+  }
+  
+  removeCollisionChain(other: Chain): void {
+    const index = this.collisionChains.indexOf(other);
+    if (index !== -1) {
+      this.collisionChains.splice(index, 1);
+    }
+  }
+  
+  addCollider<T extends Collider>(collider: T): T {
+    this.colliders.push(collider);
+    return collider;
+  }
+  
+  removeCollider(collider: Collider): void {
+    const index = this.colliders.indexOf(collider);
+    if (index !== -1) {
+      this.colliders.splice(index, 1);
+    }
+  }
+  
+  /**
+   * Returns the points within `radius` of (x, y), using the spatial hash.
+   */
+  queryRadius(x: number, y: number, radius: number): Point[] {
+    this.ensureSpatialHash();
+    return this.spatialHash.queryRadius(x, y, radius);
+  }
+  
+  /**
+   * Returns the points inside the given rectangle, using the spatial hash.
+   */
+  queryRect(x: number, y: number, width: number, height: number): Point[] {
+    this.ensureSpatialHash();
+    return this.spatialHash.queryRect(x, y, width, height);
+  }
+  
+  /**
+   * Rebuilds the spatial hash from the current point positions. Queries rebuild it
+   * automatically after a step; call this after moving points by hand.
+   */
+  rebuildSpatialHash(): void {
+    let maxBodySize = 0;
+    for (const point of this.points) {
+      maxBodySize = Math.max(maxBodySize, point.bodySize);
+    }
+    
+    // Cells must be at least as large as the widest collision distance
+    this.spatialHash.cellSize = Math.max(this.collisionCellSize, maxBodySize * 2, 1);
+    this.spatialHash.build(this.points);
+    this.spatialHashDirty = false;
+  }
+  
+  addForceField<T extends ForceField>(field: T): T {
+    this.forceFields.push(field);
+    return field;
+  }
+  
+  removeForceField(field: ForceField): void {
+    const index = this.forceFields.indexOf(field);
+    if (index !== -1) {
+      this.forceFields.splice(index, 1);
+    }
+  }
+  
+  addAngularSpring(
+    p1Index: number,
+    p2Index: number,
+    p3Index: number,
+    restAngle?: number,
+    stiffness?: number,
+    damping?: number,
+    options: AngularSpringOptions = {}
+  ): AngularSpringConstraint {
     const point1 = this.points[p1Index];
     const point2 = this.points[p2Index];
     const point3 = this.points[p3Index];
@@ -42,10 +702,92 @@ export class Chain {
       throw new Error(`Invalid point indices: ${p1Index}, ${p2Index}, ${p3Index}`);
     }
     
-    this.angleConstraints.push(new AngleConstraint(point1, point2, point3, minAngle, maxAngle));
+    const constraint = new AngularSpringConstraint(point1, point2, point3, restAngle, stiffness, damping, options);
+    this.angularSprings.push(constraint);
+    this.topologyVersion++;
+    return constraint;
+  }
+  
+  /**
+   * Registers a custom constraint to be solved alongside the built-in ones, in
+   * `priority` order.
+   */
+  addConstraint<T extends Constraint>(constraint: T): T {
+    this.constraints.push(constraint);
+    this.topologyVersion++;
+    return constraint;
+  }
+  
+  /**
+   * Keeps the point at `pointIndex` on `curve`, or drives it along the curve in
+   * `follow` mode.
+   */
+  addPathConstraint(pointIndex: number, curve: ParametricCurve, options: PathConstraintOptions = {}): PathConstraint {
+    const point = this.points[pointIndex];
+    
+    if (!point) {
+      throw new Error(`Invalid point index: ${pointIndex}`);
+    }
+    
+    return this.addConstraint(new PathConstraint(point, curve, options));
+  }
+  
+  /**
+   * Removes a constraint, whether it is a custom or a built-in one.
+   */
+  removeConstraint(constraint: Constraint): void {
+    for (const list of this.getConstraintLists()) {
+      const index = list.indexOf(constraint);
+      if (index !== -1) {
+        list.splice(index, 1);
+        this.topologyVersion++;
+        return;
+      }
+    }
+  }
+  
+  /**
+   * All enabled constraints in solve order: ascending `priority`, then distance,
+   * angle, angular spring and custom constraints in the order they were added.
+   */
+  getSolveOrder(): Constraint[] {
+    const all: Constraint[] = [
+      ...this.distanceConstraints,
+      ...this.angleConstraints,
+      ...this.angularSprings,
+      ...this.constraints
+    ].filter((constraint) => constraint.enabled);
+    
+    // Stable sort: fall back to insertion order for equal priorities
+    return all
+      .map((constraint, index) => ({ constraint, index }))
+      .sort((a, b) => a.constraint.priority - b.constraint.priority || a.index - b.index)
+      .map(({ constraint }) => constraint);
   }
   
-  createChain(startX: number, startY: number, count: number, segmentLength: number, bodySize?: number): void {
+  /**
+   * Builds a horizontal chain starting with a fixed point. By default consecutive
+   * segments are limited to bends between π/8 and π - π/8. With `angleMode: 'spring'`
+   * each joint instead springs towards a rest angle following a sine wave of
+   * `curvature` amplitude over `wavelength` joints, giving an S-curved rest pose.
+   */
+  createChain(
+    startX: number,
+    startY: number,
+    count: number,
+    segmentLength: number,
+    bodySize?: number,
+    options: CreateChainOptions = {}
+  ): void {
+    const {
+      angleMode = 'limit',
+      curvature = Math.PI / 8,
+      wavelength = Math.max(count - 2, 1),
+      springStiffness = 0.1,
+      springDamping = 0
+    } = options;
+    const base = this.points.length;
+    
     // Create first point (fixed)
     const firstPoint = new Point(startX, startY, { fixed: true, bodySize: bodySize });
     this.addPoint(firstPoint);
@@ -58,35 +800,453 @@ export class Chain {
         { bodySize: bodySize }
       );
       this.addPoint(point);
-      this.addDistanceConstraint(i - 1, i, segmentLength);
+      this.addDistanceConstraint(base + i - 1, base + i, segmentLength);
       
       // Add angle constraint for every three consecutive points
       if (i >= 2) {
-        this.addAngleConstraint(i - 2, i - 1, i, Math.PI / 8, Math.PI - Math.PI / 8);
+        if (angleMode === 'spring') {
+          // A straight joint is ±π; bend around it along the wave
+          const restAngle = wrapAngle(Math.PI + curvature * Math.sin(2 * Math.PI * (i - 2) / wavelength));
+          this.addAngularSpring(base + i - 2, base + i - 1, base + i, restAngle, springStiffness, springDamping);
+        } else {
+          this.addAngleConstraint(base + i - 2, base + i - 1, base + i, Math.PI / 8, Math.PI - Math.PI / 8);
+        }
       }
     }
   }
   
+  /**
+   * Advances the simulation by `dt` seconds. With a `fixedTimeStep` configured the
+   * elapsed time is accumulated and consumed in fixed steps, and `Point.renderPosition`
+   * is interpolated between the last two steps for the leftover fraction.
+   */
   update(dt: number, iterations: number = 5): void {
+    let alpha = 1;
+    
+    if (this.fixedTimeStep > 0) {
+      const result = runFixedSteps(this.accumulator, dt, this.fixedTimeStep, this.maxSteps, () => {
+        this.step(this.fixedTimeStep, iterations);
+      });
+      this.accumulator = result.accumulator;
+      alpha = result.alpha;
+    } else {
+      this.step(dt, iterations);
+    }
+    
+    for (const point of this.points) {
+      point.interpolate(alpha);
+    }
+  }
+  
+  /**
+   * Runs exactly one simulation step of `dt` seconds, split into `substeps`
+   * integrate + solve cycles.
+   */
+  step(dt: number, iterations: number = 5): void {
+    for (const point of this.points) {
+      point.beginStep();
+    }
+    
+    const substepDt = dt / this.substeps;
+    for (let i = 0; i < this.substeps; i++) {
+      this.substep(substepDt, iterations);
+    }
+  }
+  
+  private substep(dt: number, iterations: number): void {
+    // Nothing moves in an empty step, and XPBD compliance is scaled by 1/dt²
+    if (dt <= 0) return;
+    
+    this.time += dt;
+    
+    // Evaluate environmental forces. Sleeping points get them too, so islands can
+    // tell when the forces they rest under change
+    this.applyForceFields(this.points);
+    this.updateIslands();
+    
     // Update physics for all points
     for (const point of this.points) {
-      point.update(dt, this.gravity);
+      if (point.sleeping) {
+        point.force.set(0, 0);
+      } else {
+        point.update(dt, this.gravity, this.time);
+      }
+    }
+    
+    const constraints = this.getSolveOrder().filter((constraint) => {
+      const island = this.constraintIslands.get(constraint);
+      return !island || !island.sleeping;
+    });
+    
+    for (const constraint of constraints) {
+      if (constraint.update) {
+        constraint.update(dt);
+      }
+    }
+    
+    if (this.solver === 'xpbd') {
+      // Lagrange multipliers accumulate over the iterations of a single step
+      for (const constraint of constraints) {
+        if (constraint.resetLambda) {
+          constraint.resetLambda();
+        }
+      }
     }
     
+    const exclusions = this.selfCollision ? this.buildCollisionExclusions() : null;
+    const contacts = new Map<Point, Contact>();
+    
     // Solve constraints multiple times for better stability
     for (let i = 0; i < iterations; i++) {
-      // Solve distance constraints
-      for (const constraint of this.distanceConstraints) {
-        constraint.solve();
+      for (const constraint of constraints) {
+        if (this.solver === 'xpbd' && constraint.solveXPBD) {
+          constraint.solveXPBD(dt);
+        } else {
+          constraint.solve();
+        }
       }
       
-      // Solve angle constraints
-      for (const constraint of this.angleConstraints) {
-        constraint.solve();
+      // Push overlapping bodies apart
+      this.solvePointCollisions(exclusions, dt);
+      
+      // Keep points out of static colliders
+      this.solveColliders(contacts);
+    }
+    
+    // Tear constraints that are still overstrained after solving
+    this.removeBrokenConstraints(this.distanceConstraints);
+    this.removeBrokenConstraints(this.angleConstraints);
+    this.removeBrokenConstraints(this.angularSprings);
+    this.removeBrokenConstraints(this.constraints);
+    
+    // In Verlet mode the constraint corrections become part of the motion
+    if (this.integration === 'verlet') {
+      for (const point of this.points) {
+        point.updateVelocity(dt);
+      }
+    }
+    
+    // Bounce and friction for points that touched a collider
+    contacts.forEach(applyContactResponse);
+    
+    if (this.allowSleep) {
+      this.updateSleep(dt);
+    }
+    
+    this.spatialHashDirty = true;
+  }
+  
+  /**
+   * Wakes the island `point` belongs to, or every island when no point is given.
+   */
+  wake(point?: Point): void {
+    if (point) {
+      const island = this.pointIslands.get(point);
+      if (island && island.sleeping) island.wake();
+      return;
+    }
+    
+    for (const island of this.islands) {
+      if (island.sleeping) island.wake();
+    }
+  }
+  
+  /**
+   * Whether every island of the chain is asleep.
+   */
+  isSleeping(): boolean {
+    return this.islands.length > 0 && this.islands.every((island) => island.sleeping);
+  }
+  
+  /**
+   * Forces the islands to be rebuilt on the next step. Adding or removing points and
+   * constraints through the chain's methods, and pinning or releasing points, is
+   * picked up automatically; call this after editing the point or constraint arrays
+   * or rewiring a constraint's points by hand.
+   */
+  invalidateIslands(): void {
+    this.islandVersion = -1;
+  }
+  
+  /**
+   * Rebuilds the islands when the topology changed and wakes the islands that were
+   * disturbed while asleep.
+   */
+  private updateIslands(): void {
+    if (!this.allowSleep) {
+      if (this.islands.length > 0) this.clearIslands();
+      return;
+    }
+    
+    // Every dynamic point belongs to an island and no anchor does, so any point
+    // that doesn't match was pinned, released, dragged or added since the build
+    const anchorsChanged = this.points.some(
+      (point) => (point.fixed || point.kinematic) === this.pointIslands.has(point)
+    );
+    
+    if (this.islandVersion !== this.topologyVersion || anchorsChanged) {
+      this.clearIslands();
+      
+      const result = buildIslands(this.points, this.getConstraintLists().reduce<Constraint[]>(
+        (all, list) => all.concat(list), []
+      ));
+      this.islands = result.islands;
+      this.pointIslands = result.pointIslands;
+      this.constraintIslands = result.constraintIslands;
+      this.islandVersion = this.topologyVersion;
+      return;
+    }
+    
+    for (const island of this.islands) {
+      if (island.sleeping && island.isDisturbed(this.gravity)) {
+        island.wake();
+      }
+    }
+  }
+  
+  private clearIslands(): void {
+    this.wake();
+    for (const point of this.points) {
+      point.sleeping = false;
+    }
+    
+    this.islands = [];
+    this.pointIslands = new Map();
+    this.constraintIslands = new Map();
+    this.islandVersion = -1;
+  }
+  
+  /**
+   * Puts islands to sleep once all their points have moved slower than `sleepSpeed`
+   * for `sleepTime` seconds.
+   */
+  private updateSleep(dt: number): void {
+    for (const island of this.islands) {
+      if (island.sleeping) continue;
+      
+      if (island.getMaxSpeed(dt) < this.sleepSpeed) {
+        island.idleTime += dt;
+        if (island.idleTime >= this.sleepTime) {
+          // Record the field forces the island rests under; a change in them wakes it
+          this.applyForceFields(island.points);
+          island.sleep(this.gravity);
+        }
+      } else {
+        island.idleTime = 0;
+      }
+    }
+  }
+  
+  private applyForceFields(points: Point[]): void {
+    for (const field of this.forceFields) {
+      if (!field.enabled) continue;
+      for (const point of points) {
+        if (!point.fixed && !point.kinematic) {
+          field.apply(point, this.time);
+        }
       }
     }
   }
   
+  private resolvePoint(ref: PointRef): Point {
+    const point = typeof ref === 'number' ? this.points[ref] : ref;
+    
+    if (!point || this.points.indexOf(point) === -1) {
+      throw new Error(`Point is not part of this chain: ${typeof ref === 'number' ? ref : ref.id}`);
+    }
+    
+    return point;
+  }
+  
+  private getConstraintLists(): Constraint[][] {
+    return [this.distanceConstraints, this.angleConstraints, this.angularSprings, this.constraints];
+  }
+  
+  private getConfig(): ChainConfig {
+    return {
+      integration: this.integration,
+      solver: this.solver,
+      substeps: this.substeps,
+      fixedTimeStep: this.fixedTimeStep,
+      maxSteps: this.maxSteps,
+      selfCollision: this.selfCollision,
+      collisionNeighborDistance: this.collisionNeighborDistance,
+      collisionCellSize: this.collisionCellSize,
+      allowSleep: this.allowSleep,
+      sleepSpeed: this.sleepSpeed,
+      sleepTime: this.sleepTime
+    };
+  }
+  
+  /**
+   * Replaces the a-b arm of a three-point joint with an arm to `point`.
+   */
+  private rewireJoint(
+    joint: { point1: Point, point2: Point, point3: Point },
+    a: Point,
+    b: Point,
+    point: Point
+  ): boolean {
+    const { point1, point2, point3 } = joint;
+    
+    if ((point2 === a && point3 === b) || (point2 === b && point3 === a)) {
+      joint.point3 = point;
+      return true;
+    }
+    if ((point2 === a && point1 === b) || (point2 === b && point1 === a)) {
+      joint.point1 = point;
+      return true;
+    }
+    
+    return false;
+  }
+  
+  private solveColliders(contacts: Map<Point, Contact>): void {
+    for (const collider of this.colliders) {
+      if (!collider.enabled) continue;
+      
+      for (const point of this.points) {
+        if (point.inverseMass === 0) continue;
+        
+        const normal = collider.collide(point);
+        if (!normal) continue;
+        
+        // Remember how fast the point was approaching before it was projected out
+        const existing = contacts.get(point);
+        const approachSpeed = existing ? existing.approachSpeed : Math.max(0, -point.velocity.dot(normal));
+        contacts.set(point, { point, normal, collider, approachSpeed });
+      }
+    }
+  }
+  
+  private solvePointCollisions(exclusions: Map<Point, Set<Point>> | null, dt: number): void {
+    if (!exclusions && this.collisionChains.length === 0) return;
+    
+    this.rebuildSpatialHash();
+    
+    if (exclusions) {
+      this.spatialHash.forEachPair((a, b) => {
+        const excluded = exclusions.get(a);
+        if (excluded && excluded.has(b)) return;
+        this.collidePoints(a, b, this, dt);
+      });
+    }
+    
+    if (this.collisionChains.length > 0) {
+      const maxBodySize = this.spatialHash.cellSize / 2;
+      
+      for (const other of this.collisionChains) {
+        for (const b of other.points) {
+          const candidates = this.spatialHash.queryRadius(b.position.x, b.position.y, b.bodySize + maxBodySize);
+          for (const a of candidates) {
+            this.collidePoints(a, b, other, dt);
+          }
+        }
+      }
+    }
+  }
+  
+  /**
+   * Resolves a contact between `a` (in this chain) and `b` (in `other`). Sleeping
+   * points hold still under bodies resting on them, but a point hitting them faster
+   * than `sleepSpeed` wakes their island.
+   */
+  private collidePoints(a: Point, b: Point, other: Chain, dt: number): void {
+    if ((a.sleeping && b.sleeping) || !canCollide(a, b)) return;
+    
+    if (a.sleeping || b.sleeping) {
+      const mover = a.sleeping ? b : a;
+      const dx = mover.position.x - mover.prevPosition.x;
+      const dy = mover.position.y - mover.prevPosition.y;
+      const speed = dt > 0 ? Math.sqrt(dx * dx + dy * dy) / dt : 0;
+      const overlap = a.bodySize + b.bodySize - a.position.distance(b.position);
+      
+      if (overlap > 0 && speed >= this.sleepSpeed) {
+        if (a.sleeping) this.wake(a);
+        if (b.sleeping) other.wake(b);
+      }
+    }
+    
+    resolvePointCollision(a, b);
+  }
+  
+  private ensureSpatialHash(): void {
+    if (this.spatialHashDirty) {
+      this.rebuildSpatialHash();
+    }
+  }
+  
+  /**
+   * Maps each point to the points within `collisionNeighborDistance` distance
+   * constraints of it, which are skipped during self-collision so that
+   * neighbouring segments can overlap.
+   */
+  private buildCollisionExclusions(): Map<Point, Set<Point>> {
+    const neighbors = new Map<Point, Point[]>();
+    const link = (from: Point, to: Point) => {
+      const list = neighbors.get(from);
+      if (list) {
+        list.push(to);
+      } else {
+        neighbors.set(from, [to]);
+      }
+    };
+    for (const { point1, point2 } of this.distanceConstraints) {
+      link(point1, point2);
+      link(point2, point1);
+    }
+    
+    const exclusions = new Map<Point, Set<Point>>();
+    for (const point of this.points) {
+      const excluded = new Set<Point>();
+      let frontier = [point];
+      
+      for (let hop = 0; hop < this.collisionNeighborDistance; hop++) {
+        const next: Point[] = [];
+        for (const current of frontier) {
+          for (const neighbor of neighbors.get(current) || []) {
+            if (neighbor !== point && !excluded.has(neighbor)) {
+              excluded.add(neighbor);
+              next.push(neighbor);
+            }
+          }
+        }
+        frontier = next;
+      }
+      
+      exclusions.set(point, excluded);
+    }
+    
+    return exclusions;
+  }
+  
+  private removeBrokenConstraints(constraints: Constraint[]): void {
+    let kept = 0;
+    
+    for (let i = 0; i < constraints.length; i++) {
+      const constraint = constraints[i];
+      
+      if (constraint.breakThreshold !== undefined && constraint.getStrain) {
+        const strain = constraint.getStrain();
+        
+        if (strain > constraint.breakThreshold) {
+          constraint.broken = true;
+          for (const listener of this.breakListeners) {
+            listener({ constraint, strain });
+          }
+          continue;
+        }
+      }
+      
+      constraints[kept++] = constraint;
+    }
+    
+    if (kept < constraints.length) {
+      constraints.length = kept;
+      this.topologyVersion++;
+    }
+  }
+  
   render(ctx: CanvasRenderingContext2D): void {
     // Draw connections between points
     ctx.strokeStyle = '#555';
@@ -94,14 +1254,64 @@ export class Chain {
     
     for (const constraint of this.distanceConstraints) {
       ctx.beginPath();
-      ctx.moveTo(constraint.point1.position.x, constraint.point1.position.y);
-      ctx.lineTo(constraint.point2.position.x, constraint.point2.position.y);
+      ctx.moveTo(constraint.point1.renderPosition.x, constraint.point1.renderPosition.y);
+      ctx.lineTo(constraint.point2.renderPosition.x, constraint.point2.renderPosition.y);
       ctx.stroke();
     }
     
+    // Let custom constraints draw themselves
+    for (const constraint of this.constraints) {
+      if (constraint.enabled && constraint.render) {
+        constraint.render(ctx);
+      }
+    }
+    
     // Draw points
     for (const point of this.points) {
-      point.render(ctx);
+      point.render(ctx, undefined, point.renderPosition);
+    }
+  }
+}
+
+/**
+ * Checks a loaded chain configuration; missing fields keep their defaults.
+ */
+const readConfig = (value: unknown): ChainConfig | undefined => {
+  if (value === undefined) return undefined;
+  
+  const data = readObject(value, 'chain config');
+  const what = 'chain config';
+  if (data.integration !== undefined && ['explicit', 'verlet'].indexOf(String(data.integration)) < 0) {
+    throw new Error(`Invalid ${what}: integration is ${String(data.integration)}`);
+  }
+  if (data.solver !== undefined && ['pbd', 'xpbd'].indexOf(String(data.solver)) < 0) {
+    throw new Error(`Invalid ${what}: solver is ${String(data.solver)}`);
+  }
+  
+  return {
+    integration: data.integration as IntegrationMode | undefined,
+    solver: data.solver as SolverMode | undefined,
+    substeps: readOptionalNumber(data, 'substeps', what),
+    fixedTimeStep: readOptionalNumber(data, 'fixedTimeStep', what),
+    maxSteps: readOptionalNumber(data, 'maxSteps', what),
+    selfCollision: readOptionalBoolean(data, 'selfCollision', what),
+    collisionNeighborDistance: readOptionalNumber(data, 'collisionNeighborDistance', what),
+    collisionCellSize: readOptionalNumber(data, 'collisionCellSize', what),
+    allowSleep: readOptionalBoolean(data, 'allowSleep', what),
+    sleepSpeed: readOptionalNumber(data, 'sleepSpeed', what),
+    sleepTime: readOptionalNumber(data, 'sleepTime', what)
+  };
+};
+
+/**
+ * Removes matching items from an array in place.
+ */
+const removeWhere = <T>(list: T[], predicate: (item: T) => boolean): void => {
+  let kept = 0;
+  for (let i = 0; i < list.length; i++) {
+    if (!predicate(list[i])) {
+      list[kept++] = list[i];
     }
   }
-} 
\ No newline at end of file
+  list.length = kept;
+};
\ No newline at end of file
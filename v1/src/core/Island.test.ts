@@ -0,0 +1,50 @@
+import { Point } from './Point';
+import { DistanceConstraint } from '../constraints/DistanceConstraint';
+import { buildIslands } from './Island';
+import { Vector2D } from '../utils/Vector';
+
+describe('Island', () => {
+  it('splits points at fixed anchors', () => {
+    const anchor = new Point(0, 0, { fixed: true });
+    const left = [new Point(-1, 0), new Point(-2, 0)];
+    const right = new Point(1, 0);
+    const constraints = [
+      new DistanceConstraint(anchor, left[0], 1),
+      new DistanceConstraint(left[0], left[1], 1),
+      new DistanceConstraint(anchor, right, 1)
+    ];
+    
+    const { islands, pointIslands, constraintIslands } = buildIslands([anchor, ...left, right], constraints);
+    
+    expect(islands.length).toBe(2);
+    expect(islands[0].points).toEqual(left);
+    expect(islands[0].anchors).toEqual([anchor]);
+    expect(islands[1].points).toEqual([right]);
+    expect(islands[1].anchors).toEqual([anchor]);
+    expect(pointIslands.has(anchor)).toBe(false);
+    expect(constraintIslands.get(constraints[2])).toBe(islands[1]);
+  });
+  
+  it('notices when it is disturbed while asleep', () => {
+    const anchor = new Point(0, 0, { fixed: true });
+    const point = new Point(0, 1);
+    const { islands } = buildIslands([anchor, point], [new DistanceConstraint(anchor, point, 1)]);
+    const gravity = new Vector2D(0, 10);
+    const island = islands[0];
+    
+    island.sleep(gravity);
+    expect(point.sleeping).toBe(true);
+    expect(island.isDisturbed(gravity)).toBe(false);
+    expect(island.isDisturbed(new Vector2D(0, 5))).toBe(true);
+    
+    anchor.position.x = 1;
+    expect(island.isDisturbed(gravity)).toBe(true);
+    anchor.position.x = 0;
+    
+    point.applyImpulse(new Vector2D(1, 0));
+    expect(island.isDisturbed(gravity)).toBe(true);
+    
+    island.wake();
+    expect(point.sleeping).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,222 @@
+import { Point } from './Point';
+import { Constraint } from '../constraints/Constraint';
+import { Vector2D } from '../utils/Vector';
+
+export interface IslandState {
+  sleeping: boolean;
+  idleTime: number;
+  restPositions: Vector2D[];
+  restForces: Vector2D[];
+  restGravity: Vector2D;
+}
+
+/**
+ * A group of points connected through constraints, which falls asleep and wakes up
+ * as a whole. Fixed and kinematic points do not join islands together; they are
+ * kept as `anchors` of every island that hangs from them.
+ */
+export class Island {
+  public points: Point[];
+  public anchors: Point[];
+  public constraints: Constraint[];
+  public sleeping: boolean;
+  public idleTime: number;
+  // Positions when the island fell asleep, points first, then anchors
+  private restPositions: Vector2D[];
+  // Force-field forces on the points and gravity when the island fell asleep
+  private restForces: Vector2D[];
+  private restGravity: Vector2D;
+
+  constructor(points: Point[], anchors: Point[], constraints: Constraint[]) {
+    this.points = points;
+    this.anchors = anchors;
+    this.constraints = constraints;
+    this.sleeping = false;
+    this.idleTime = 0;
+    this.restPositions = [];
+    this.restForces = [];
+    this.restGravity = new Vector2D(0, 0);
+  }
+
+  /**
+   * Largest distance any point moved during the last (sub)step, per second.
+   */
+  getMaxSpeed(dt: number): number {
+    if (dt <= 0) return 0;
+    
+    let maxSq = 0;
+    for (const point of this.points) {
+      const dx = point.position.x - point.prevPosition.x;
+      const dy = point.position.y - point.prevPosition.y;
+      maxSq = Math.max(maxSq, dx * dx + dy * dy);
+    }
+    
+    return Math.sqrt(maxSq) / dt;
+  }
+
+  /**
+   * Puts the island to sleep. The points' current forces are taken as the steady
+   * forces (from force fields) the island rests under.
+   */
+  sleep(gravity: Vector2D): void {
+    this.sleeping = true;
+    this.restPositions = [];
+    this.restForces = [];
+    this.restGravity = gravity.clone();
+    
+    for (const point of this.points) {
+      point.sleeping = true;
+      point.velocity.set(0, 0);
+      this.restForces.push(point.force.clone());
+      point.force.set(0, 0);
+      point.prevPosition.copy(point.position);
+      this.restPositions.push(point.position.clone());
+    }
+    for (const anchor of this.anchors) {
+      this.restPositions.push(anchor.position.clone());
+    }
+  }
+
+  wake(): void {
+    this.sleeping = false;
+    this.idleTime = 0;
+    
+    for (const point of this.points) {
+      point.sleeping = false;
+    }
+  }
+
+  saveState(): IslandState {
+    return {
+      sleeping: this.sleeping,
+      idleTime: this.idleTime,
+      restPositions: this.restPositions.map((position) => position.clone()),
+      restForces: this.restForces.map((force) => force.clone()),
+      restGravity: this.restGravity.clone()
+    };
+  }
+
+  restoreState(state: IslandState): void {
+    this.sleeping = state.sleeping;
+    this.idleTime = state.idleTime;
+    this.restPositions = state.restPositions.map((position) => position.clone());
+    this.restForces = state.restForces.map((force) => force.clone());
+    this.restGravity = state.restGravity.clone();
+  }
+
+  /**
+   * Whether anything disturbed the island since it fell asleep: a change in gravity
+   * or in the forces on its points (an applied force, or a force field that changed),
+   * an impulse, a point being dragged or moved by hand, or an anchor being moved.
+   */
+  isDisturbed(gravity: Vector2D): boolean {
+    const moved = (point: Point, rest: Vector2D) => point.position.x !== rest.x || point.position.y !== rest.y;
+    
+    if (gravity.x !== this.restGravity.x || gravity.y !== this.restGravity.y) {
+      return true;
+    }
+    
+    for (let i = 0; i < this.points.length; i++) {
+      const point = this.points[i];
+      const restForce = this.restForces[i];
+      
+      if (point.kinematic || point.force.x !== restForce.x || point.force.y !== restForce.y ||
+          point.velocity.x !== 0 || point.velocity.y !== 0 ||
+          moved(point, this.restPositions[i])) {
+        return true;
+      }
+    }
+    
+    for (let i = 0; i < this.anchors.length; i++) {
+      if (moved(this.anchors[i], this.restPositions[this.points.length + i])) {
+        return true;
+      }
+    }
+    
+    return false;
+  }
+}
+
+/**
+ * Splits points into islands connected by `constraints` (union-find). Returns the
+ * islands and, for quick lookup, the island of every dynamic point and constraint.
+ */
+export const buildIslands = (
+  points: Point[],
+  constraints: Constraint[]
+): { islands: Island[], pointIslands: Map<Point, Island>, constraintIslands: Map<Constraint, Island> } => {
+  const parent = new Map<Point, Point>();
+  const isAnchor = (point: Point) => point.fixed || point.kinematic;
+  
+  const find = (point: Point): Point => {
+    let root = point;
+    while (parent.get(root) !== root) root = parent.get(root) as Point;
+    
+    // Path compression
+    let current = point;
+    while (current !== root) {
+      const next = parent.get(current) as Point;
+      parent.set(current, root);
+      current = next;
+    }
+    
+    return root;
+  };
+  
+  for (const point of points) {
+    if (!isAnchor(point)) parent.set(point, point);
+  }
+  
+  for (const constraint of constraints) {
+    let first: Point | null = null;
+    
+    for (const point of constraint.getPoints()) {
+      if (!parent.has(point)) continue;
+      if (!first) {
+        first = find(point);
+      } else {
+        parent.set(find(point), first);
+      }
+    }
+  }
+  
+  const islands: Island[] = [];
+  const byRoot = new Map<Point, Island>();
+  const pointIslands = new Map<Point, Island>();
+  const constraintIslands = new Map<Constraint, Island>();
+  
+  for (const point of points) {
+    if (!parent.has(point)) continue;
+    
+    const root = find(point);
+    let island = byRoot.get(root);
+    if (!island) {
+      island = new Island([], [], []);
+      byRoot.set(root, island);
+      islands.push(island);
+    }
+    
+    island.points.push(point);
+    pointIslands.set(point, island);
+  }
+  
+  for (const constraint of constraints) {
+    const constrained = constraint.getPoints();
+    let island: Island | undefined;
+    
+    for (const point of constrained) {
+      island = island || pointIslands.get(point);
+    }
+    if (!island) continue;
+    
+    island.constraints.push(constraint);
+    for (const point of constrained) {
+      if (!pointIslands.has(point) && island.anchors.indexOf(point) === -1) {
+        island.anchors.push(point);
+      }
+    }
+    constraintIslands.set(constraint, island);
+  }
+  
+  return { islands, pointIslands, constraintIslands };
+};
\ No newline at end of file
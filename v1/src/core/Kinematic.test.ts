@@ -0,0 +1,52 @@
+import { FunctionDriver, KeyframeTrack } from './Kinematic';
+
+describe('Kinematic', () => {
+  it('wraps a function of time', () => {
+    const driver = new FunctionDriver((time) => ({ x: time * 2, y: -time }));
+    const position = driver.getPositionAt(1.5);
+    
+    expect(position.x).toBe(3);
+    expect(position.y).toBe(-1.5);
+  });
+  
+  describe('KeyframeTrack', () => {
+    const keyframes = [
+      { time: 1, x: 10, y: 0 },
+      { time: 0, x: 0, y: 0 },
+      { time: 2, x: 10, y: 10 }
+    ];
+    
+    it('interpolates between sorted keyframes', () => {
+      const track = new KeyframeTrack(keyframes);
+      
+      expect(track.duration).toBe(2);
+      expect(track.getPositionAt(0.5).x).toBeCloseTo(5);
+      expect(track.getPositionAt(1.25).y).toBeCloseTo(2.5);
+    });
+    
+    it('holds the first and last positions outside the track', () => {
+      const track = new KeyframeTrack(keyframes);
+      
+      expect(track.getPositionAt(-1).x).toBe(0);
+      expect(track.getPositionAt(5).y).toBe(10);
+    });
+    
+    it('repeats when looping', () => {
+      const track = new KeyframeTrack(keyframes, { loop: true });
+      
+      expect(track.getPositionAt(2.5).x).toBeCloseTo(5);
+      expect(track.getPositionAt(-1.5).x).toBeCloseTo(5);
+    });
+    
+    it('eases in and out with smooth easing', () => {
+      const track = new KeyframeTrack(keyframes, { easing: 'smooth' });
+      
+      expect(track.getPositionAt(0.25).x).toBeCloseTo(1.5625);
+      expect(track.getPositionAt(0.5).x).toBeCloseTo(5);
+    });
+    
+    it('needs at least one keyframe', () => {
+      expect(() => new KeyframeTrack([])).toThrow('at least one keyframe');
+    });
+  });
+});
\ No newline at end of file
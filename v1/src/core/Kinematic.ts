@@ -0,0 +1,96 @@
+import { Vector2D } from '../utils/Vector';
+
+/**
+ * Scripted motion for a kinematic point: returns where the point is at a given
+ * simulation time, in seconds.
+ */
+export interface KinematicDriver {
+  getPositionAt(time: number): Vector2D;
+}
+
+export type KinematicFunction = (time: number) => { x: number, y: number };
+
+export interface Keyframe {
+  time: number;
+  x: number;
+  y: number;
+}
+
+export type KeyframeEasing = 'linear' | 'smooth';
+
+export interface KeyframeTrackOptions {
+  loop?: boolean;
+  easing?: KeyframeEasing;
+}
+
+/**
+ * Wraps a plain function of time as a `KinematicDriver`.
+ */
+export class FunctionDriver implements KinematicDriver {
+  public fn: KinematicFunction;
+  
+  constructor(fn: KinematicFunction) {
+    this.fn = fn;
+  }
+  
+  getPositionAt(time: number): Vector2D {
+    const { x, y } = this.fn(time);
+    return new Vector2D(x, y);
+  }
+}
+
+/**
+ * Interpolates between keyframes. Before the first and after the last keyframe the
+ * position holds, unless `loop` repeats the track.
+ */
+export class KeyframeTrack implements KinematicDriver {
+  public keyframes: Keyframe[];
+  public loop: boolean;
+  public easing: KeyframeEasing;
+  
+  constructor(keyframes: Keyframe[], options: KeyframeTrackOptions = {}) {
+    if (keyframes.length === 0) {
+      throw new Error('A keyframe track needs at least one keyframe');
+    }
+    
+    this.keyframes = keyframes.slice().sort((a, b) => a.time - b.time);
+    this.loop = options.loop || false;
+    this.easing = options.easing || 'linear';
+  }
+  
+  get duration(): number {
+    return this.keyframes[this.keyframes.length - 1].time - this.keyframes[0].time;
+  }
+  
+  getPositionAt(time: number): Vector2D {
+    const first = this.keyframes[0];
+    const last = this.keyframes[this.keyframes.length - 1];
+    let localTime = time;
+    
+    if (this.loop && this.duration > 0) {
+      localTime = first.time + ((((time - first.time) % this.duration) + this.duration) % this.duration);
+    }
+    
+    if (localTime <= first.time) return new Vector2D(first.x, first.y);
+    if (localTime >= last.time) return new Vector2D(last.x, last.y);
+    
+    // Find the segment containing localTime
+    let index = 0;
+    while (index < this.keyframes.length - 2 && this.keyframes[index + 1].time <= localTime) {
+      index++;
+    }
+    
+    const from = this.keyframes[index];
+    const to = this.keyframes[index + 1];
+    let alpha = (localTime - from.time) / (to.time - from.time);
+    
+    if (this.easing === 'smooth') {
+      alpha = alpha * alpha * (3 - 2 * alpha);
+    }
+    
+    return new Vector2D(
+      from.x + (to.x - from.x) * alpha,
+      from.y + (to.y - from.y) * alpha
+    );
+  }
+}
\ No newline at end of file
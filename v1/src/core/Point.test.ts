@@ -0,0 +1,109 @@
+import { Point } from './Point';
+import { Vector2D } from '../utils/Vector';
+
+describe('Point', () => {
+  describe('integration', () => {
+    it('integrates gravity into velocity and position', () => {
+      const point = new Point(0, 0);
+      point.update(0.5, new Vector2D(0, 10));
+      
+      expect(point.velocity.y).toBeCloseTo(5);
+      expect(point.position.y).toBeCloseTo(2.5);
+      expect(point.prevPosition.y).toBe(0);
+    });
+    
+    it('leaves fixed points in place', () => {
+      const point = new Point(3, 4, { fixed: true });
+      point.update(0.5, new Vector2D(0, 10));
+      
+      expect(point.position.x).toBe(3);
+      expect(point.position.y).toBe(4);
+    });
+    
+    it('reconstructs velocity from the displacement since the last update', () => {
+      const point = new Point(0, 0);
+      point.update(0.5, new Vector2D(0, 0));
+      // A constraint correction between update and updateVelocity
+      point.position.set(2, 1);
+      point.updateVelocity(0.5);
+      
+      expect(point.velocity.x).toBeCloseTo(4);
+      expect(point.velocity.y).toBeCloseTo(2);
+    });
+  });
+  
+  describe('forces', () => {
+    it('divides accumulated forces by mass and clears them after an update', () => {
+      const point = new Point(0, 0, { mass: 2 });
+      point.applyForce(new Vector2D(4, 0));
+      point.applyForce(new Vector2D(2, 0));
+      point.update(1, new Vector2D(0, 0));
+      
+      expect(point.velocity.x).toBeCloseTo(3);
+      expect(point.force.x).toBe(0);
+      
+      point.update(1, new Vector2D(0, 0));
+      expect(point.velocity.x).toBeCloseTo(3);
+    });
+    
+    it('changes velocity by impulse over mass', () => {
+      const point = new Point(0, 0, { mass: 4 });
+      point.applyImpulse(new Vector2D(8, -4));
+      
+      expect(point.velocity.x).toBeCloseTo(2);
+      expect(point.velocity.y).toBeCloseTo(-1);
+    });
+    
+    it('slows down with damping and drag', () => {
+      const free = new Point(0, 0);
+      const damped = new Point(0, 0, { damping: 0.5 });
+      const dragged = new Point(0, 0, { drag: 0.1 });
+      
+      for (const point of [free, damped, dragged]) {
+        point.velocity.set(10, 0);
+        point.update(0.1, new Vector2D(0, 0));
+      }
+      
+      expect(free.velocity.x).toBeCloseTo(10);
+      expect(damped.velocity.x).toBeCloseTo(9.5);
+      // Quadratic drag: 0.1 * 10 * 10 over 0.1 s
+      expect(dragged.velocity.x).toBeCloseTo(9);
+    });
+  });
+  
+  describe('kinematic', () => {
+    it('follows a drag with the implied velocity and keeps it when released', () => {
+      const point = new Point(0, 0);
+      
+      point.dragTo(1, 0);
+      point.update(0.1, new Vector2D(0, 10));
+      
+      expect(point.kinematic).toBe(true);
+      expect(point.inverseMass).toBe(0);
+      expect(point.position.x).toBe(1);
+      expect(point.position.y).toBe(0);
+      expect(point.velocity.x).toBeCloseTo(10);
+      
+      point.release();
+      point.update(0.1, new Vector2D(0, 0));
+      
+      expect(point.kinematic).toBe(false);
+      expect(point.position.x).toBeCloseTo(2);
+    });
+    
+    it('is moved by its driver and not by constraints', () => {
+      const point = new Point(0, 0);
+      point.setDriver((time) => ({ x: time, y: 0 }));
+      
+      point.update(0.5, new Vector2D(0, 10), 0.5);
+      point.applyConstraint(new Vector2D(5, 5));
+      
+      expect(point.position.x).toBe(0.5);
+      expect(point.position.y).toBe(0);
+      expect(point.velocity.x).toBeCloseTo(1);
+      
+      point.setDriver(null);
+      expect(point.kinematic).toBe(false);
+    });
+  });
+});
\ No newline at end of file
@@ -1,50 +1,322 @@
 import { Vector2D } from '../utils/Vector';
+import { PointJSON, readNumber, readObject, readOptionalBoolean, readOptionalNumber, readVector } from '../serialization/Schema';
+import { KinematicDriver, KinematicFunction, FunctionDriver } from './Kinematic';
+
+/**
+ * How a point's velocity is advanced.
+ * - `explicit`: velocity is integrated from forces only; constraint corrections move the
+ *   point but never feed back into its velocity.
+ * - `verlet`: position-based integration; velocity is reconstructed from
+ *   `position - prevPosition` after constraints have been solved.
+ */
+export type IntegrationMode = 'explicit' | 'verlet';
 
 export interface PointOptions {
+  id?: number;
   bodySize?: number;
   fixed?: boolean;
   mass?: number;
+  damping?: number;
+  drag?: number;
+  collisionGroup?: number;
+  collisionMask?: number;
+}
+
+/**
+ * Mutable simulation state of a point, as captured by `Point.saveState`.
+ */
+export interface PointState {
+  position: Vector2D;
+  prevPosition: Vector2D;
+  velocity: Vector2D;
+  renderPosition: Vector2D;
+  stepStartPosition: Vector2D;
+  force: Vector2D;
+  fixed: boolean;
+  mass: number;
+  driver: KinematicDriver | null;
+  dragTarget: Vector2D | null;
+  sleeping: boolean;
 }
 
+let nextPointId = 1;
+
 export class Point {
+  public id: number;
   public position: Vector2D;
   public prevPosition: Vector2D;
   public velocity: Vector2D;
+  public renderPosition: Vector2D;
+  public stepStartPosition: Vector2D;
   public bodySize: number;
   public fixed: boolean;
   public mass: number;
+  public force: Vector2D;
+  public damping: number;
+  public drag: number;
+  public collisionGroup: number;
+  public collisionMask: number;
+  public driver: KinematicDriver | null;
+  public dragTarget: Vector2D | null;
+  // Set while the point's island is asleep; sleeping points are not simulated and
+  // act like fixed points towards everything else
+  public sleeping: boolean;
 
   constructor(x: number, y: number, options: PointOptions = {}) {
+    // IDs stay stable while points are inserted, removed or moved between chains
+    if (options.id !== undefined) {
+      this.id = options.id;
+      nextPointId = Math.max(nextPointId, options.id + 1);
+    } else {
+      this.id = nextPointId++;
+    }
     this.position = new Vector2D(x, y);
     this.prevPosition = new Vector2D(x, y);
     this.velocity = new Vector2D(0, 0);
+    this.renderPosition = new Vector2D(x, y);
+    this.stepStartPosition = new Vector2D(x, y);
     this.bodySize = options.bodySize || 1;
     this.fixed = options.fixed || false;
     this.mass = options.mass || 1;
+    this.force = new Vector2D(0, 0);
+    this.damping = options.damping || 0;
+    this.drag = options.drag || 0;
+    this.collisionGroup = options.collisionGroup !== undefined ? options.collisionGroup : 1;
+    this.collisionMask = options.collisionMask !== undefined ? options.collisionMask : 0xFFFF;
+    this.driver = null;
+    this.dragTarget = null;
+    this.sleeping = false;
+  }
+
+  /**
+   * Kinematic points are moved by a driver or a drag instead of by forces. Like
+   * fixed points they are not moved by constraints, but their velocity follows
+   * their motion, so it is passed on to connected points.
+   */
+  get kinematic(): boolean {
+    return this.driver !== null || this.dragTarget !== null;
   }
 
-  update(dt: number, gravity: Vector2D): void {
-    if (this.fixed) return;
+  /**
+   * Inverse mass used to weight constraint corrections. Fixed points behave as if
+   * they had infinite mass.
+   */
+  get inverseMass(): number {
+    return this.fixed || this.kinematic || this.sleeping ? 0 : 1 / this.mass;
+  }
+
+  /**
+   * Drives the point along a scripted path of simulation time. Pass null to make it
+   * dynamic again; it keeps the velocity it had.
+   */
+  setDriver(driver: KinematicDriver | KinematicFunction | null): void {
+    this.driver = typeof driver === 'function' ? new FunctionDriver(driver) : driver;
+  }
+
+  /**
+   * Moves the point kinematically to (x, y) over the next update, e.g. while the user
+   * drags it. Call `release` to let go.
+   */
+  dragTo(x: number, y: number): void {
+    if (this.dragTarget) {
+      this.dragTarget.set(x, y);
+    } else {
+      this.dragTarget = new Vector2D(x, y);
+    }
+  }
+
+  /**
+   * Ends a drag. The point keeps the velocity of the drag, so it can be thrown.
+   */
+  release(): void {
+    this.dragTarget = null;
+  }
+
+  /**
+   * Accumulates a force for the next `update`. Forces are divided by mass and cleared
+   * once they have been integrated.
+   */
+  applyForce(force: Vector2D): void {
+    this.force.add(force);
+  }
+
+  /**
+   * Applies an instantaneous change in momentum.
+   */
+  applyImpulse(impulse: Vector2D): void {
+    // Sleeping points take the impulse; it wakes their island on the next step
+    if (this.fixed || this.kinematic) return;
+    this.velocity.x += impulse.x / this.mass;
+    this.velocity.y += impulse.y / this.mass;
+  }
+
+  update(dt: number, gravity: Vector2D, time: number = 0): void {
+    if (this.kinematic) {
+      this.updateKinematic(dt, time);
+      return;
+    }
+    
+    if (this.fixed) {
+      this.force.set(0, 0);
+      return;
+    }
 
     // Store current position as previous
     this.prevPosition.set(this.position.x, this.position.y);
 
-    // Apply forces
-    this.velocity.add(gravity.clone().multiplyScalar(dt));
+    // Quadratic air drag opposes the direction of motion
+    const speed = this.velocity.length();
+    if (this.drag > 0 && speed > 0) {
+      this.force.x -= this.drag * speed * this.velocity.x;
+      this.force.y -= this.drag * speed * this.velocity.y;
+    }
+
+    // Apply forces (gravity is an acceleration and does not depend on mass)
+    this.velocity.x += (gravity.x + this.force.x / this.mass) * dt;
+    this.velocity.y += (gravity.y + this.force.y / this.mass) * dt;
+    this.force.set(0, 0);
+    
+    // Linear damping
+    if (this.damping > 0) {
+      this.velocity.multiplyScalar(Math.max(0, 1 - this.damping * dt));
+    }
     
     // Update position
     this.position.add(this.velocity.clone().multiplyScalar(dt));
   }
 
+  private updateKinematic(dt: number, time: number): void {
+    this.force.set(0, 0);
+    this.prevPosition.copy(this.position);
+    
+    const target = this.dragTarget || (this.driver as KinematicDriver).getPositionAt(time);
+    this.position.set(target.x, target.y);
+    
+    // Implied velocity, so constraints can transfer the motion
+    if (dt > 0) {
+      this.velocity.set(
+        (this.position.x - this.prevPosition.x) / dt,
+        (this.position.y - this.prevPosition.y) / dt
+      );
+    }
+  }
+
+  /**
+   * Reconstructs velocity from the displacement since the last `update`, so that
+   * constraint corrections made in between are kept as motion (Verlet / PBD).
+   */
+  updateVelocity(dt: number): void {
+    if (this.fixed || dt <= 0) return;
+    
+    this.velocity.set(
+      (this.position.x - this.prevPosition.x) / dt,
+      (this.position.y - this.prevPosition.y) / dt
+    );
+  }
+
+  /**
+   * Records the position at the start of a simulation step for render interpolation.
+   */
+  beginStep(): void {
+    this.stepStartPosition.copy(this.position);
+  }
+
+  /**
+   * Blends `renderPosition` between the start of the last step (alpha = 0) and the
+   * current position (alpha = 1).
+   */
+  interpolate(alpha: number): void {
+    this.renderPosition.set(
+      this.stepStartPosition.x + (this.position.x - this.stepStartPosition.x) * alpha,
+      this.stepStartPosition.y + (this.position.y - this.stepStartPosition.y) * alpha
+    );
+  }
+
   applyConstraint(newPosition: Vector2D): void {
-    if (this.fixed) return;
+    if (this.inverseMass === 0) return;
     this.position.set(newPosition.x, newPosition.y);
   }
 
-  render(ctx: CanvasRenderingContext2D, color: string = '#333'): void {
+  toJSON(): PointJSON {
+    return {
+      id: this.id,
+      position: { x: this.position.x, y: this.position.y },
+      prevPosition: { x: this.prevPosition.x, y: this.prevPosition.y },
+      velocity: { x: this.velocity.x, y: this.velocity.y },
+      bodySize: this.bodySize,
+      fixed: this.fixed,
+      mass: this.mass,
+      damping: this.damping,
+      drag: this.drag,
+      collisionGroup: this.collisionGroup,
+      collisionMask: this.collisionMask
+    };
+  }
+
+  static fromJSON(json: PointJSON): Point {
+    const data = readObject(json, 'point');
+    const position = readVector(data, 'position', 'point');
+    const point = new Point(position.x, position.y, {
+      id: readNumber(data, 'id', 'point'),
+      bodySize: readOptionalNumber(data, 'bodySize', 'point'),
+      fixed: readOptionalBoolean(data, 'fixed', 'point'),
+      mass: readOptionalNumber(data, 'mass', 'point'),
+      damping: readOptionalNumber(data, 'damping', 'point'),
+      drag: readOptionalNumber(data, 'drag', 'point'),
+      collisionGroup: readOptionalNumber(data, 'collisionGroup', 'point'),
+      collisionMask: readOptionalNumber(data, 'collisionMask', 'point')
+    });
+    
+    if (data.prevPosition !== undefined) {
+      const prevPosition = readVector(data, 'prevPosition', 'point');
+      point.prevPosition.set(prevPosition.x, prevPosition.y);
+    }
+    if (data.velocity !== undefined) {
+      const velocity = readVector(data, 'velocity', 'point');
+      point.velocity.set(velocity.x, velocity.y);
+    }
+    
+    return point;
+  }
+
+  saveState(): PointState {
+    return {
+      position: this.position.clone(),
+      prevPosition: this.prevPosition.clone(),
+      velocity: this.velocity.clone(),
+      renderPosition: this.renderPosition.clone(),
+      stepStartPosition: this.stepStartPosition.clone(),
+      force: this.force.clone(),
+      fixed: this.fixed,
+      mass: this.mass,
+      driver: this.driver,
+      dragTarget: this.dragTarget ? this.dragTarget.clone() : null,
+      sleeping: this.sleeping
+    };
+  }
+
+  /**
+   * Puts the point back into a state saved with `saveState`. Vectors are copied in
+   * place, so references to `position` and friends stay valid.
+   */
+  restoreState(state: PointState): void {
+    this.position.copy(state.position);
+    this.prevPosition.copy(state.prevPosition);
+    this.velocity.copy(state.velocity);
+    this.renderPosition.copy(state.renderPosition);
+    this.stepStartPosition.copy(state.stepStartPosition);
+    this.force.copy(state.force);
+    this.fixed = state.fixed;
+    this.mass = state.mass;
+    this.driver = state.driver;
+    this.dragTarget = state.dragTarget ? state.dragTarget.clone() : null;
+    this.sleeping = state.sleeping;
+  }
+
+  render(ctx: CanvasRenderingContext2D, color: string = '#333', position: Vector2D = this.position): void {
     ctx.beginPath();
-    ctx.arc(this.position.x, this.position.y, this.bodySize, 0, Math.PI * 2);
+    ctx.arc(position.x, position.y, this.bodySize, 0, Math.PI * 2);
     ctx.fillStyle = color;
     ctx.fill();
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { ForceField, Falloff, computeFalloff } from './ForceField';
+
+export interface AttractorFieldOptions {
+  radius?: number;
+  falloff?: Falloff;
+  minDistance?: number;
+}
+
+/**
+ * Pulls points towards (positive strength) or pushes them away from (negative
+ * strength) a position. Like gravity, the pull is scaled by the point's mass.
+ */
+export class AttractorField implements ForceField {
+  public enabled: boolean;
+  public position: Vector2D;
+  public strength: number;
+  public radius: number;
+  public falloff: Falloff;
+  public minDistance: number;
+  
+  constructor(x: number, y: number, strength: number, options: AttractorFieldOptions = {}) {
+    this.enabled = true;
+    this.position = new Vector2D(x, y);
+    this.strength = strength;
+    this.radius = options.radius || 0;
+    this.falloff = options.falloff || 'linear';
+    this.minDistance = options.minDistance || 1;
+  }
+  
+  apply(point: Point): void {
+    const dx = this.position.x - point.position.x;
+    const dy = this.position.y - point.position.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    
+    if (distance === 0) return; // Avoid division by zero
+    
+    const scale = this.strength * point.mass *
+      computeFalloff(distance, this.radius, this.falloff, this.minDistance) / distance;
+    
+    if (scale !== 0) {
+      point.applyForce(new Vector2D(dx * scale, dy * scale));
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { computeFalloff } from './ForceField';
+import { WindField } from './WindField';
+import { AttractorField } from './AttractorField';
+import { VortexField } from './VortexField';
+import { TurbulenceField } from './TurbulenceField';
+
+describe('force fields', () => {
+  it('scales strength by distance', () => {
+    expect(computeFalloff(5, 10, 'none')).toBe(1);
+    expect(computeFalloff(5, 10, 'linear')).toBeCloseTo(0.5);
+    expect(computeFalloff(11, 10, 'linear')).toBe(0);
+    expect(computeFalloff(2, 0, 'inverseSquare')).toBeCloseTo(0.25);
+    expect(computeFalloff(0.5, 0, 'inverseSquare', 1)).toBe(1);
+  });
+  
+  it('blows in its direction without gusts', () => {
+    const point = new Point(0, 0);
+    new WindField(new Vector2D(2, 0), 3).apply(point, 0);
+    
+    expect(point.force.x).toBeCloseTo(3);
+    expect(point.force.y).toBeCloseTo(0);
+  });
+  
+  it('varies gusts over time and repeats them for a seed', () => {
+    const wind = new WindField(new Vector2D(1, 0), 10, { gustStrength: 0.5, seed: 7 });
+    const again = new WindField(new Vector2D(1, 0), 10, { gustStrength: 0.5, seed: 7 });
+    const strengths = [0.3, 1.7, 4.1].map((time) => wind.getStrengthAt(time));
+    
+    expect(new Set(strengths).size).toBe(3);
+    expect([0.3, 1.7, 4.1].map((time) => again.getStrengthAt(time))).toEqual(strengths);
+  });
+  
+  it('pulls points towards an attractor, scaled by mass', () => {
+    const light = new Point(10, 0);
+    const heavy = new Point(10, 0, { mass: 2 });
+    const attractor = new AttractorField(0, 0, 5, { falloff: 'none' });
+    attractor.apply(light);
+    attractor.apply(heavy);
+    
+    expect(light.force.x).toBeCloseTo(-5);
+    expect(heavy.force.x).toBeCloseTo(-10);
+  });
+  
+  it('swirls points around a vortex', () => {
+    const point = new Point(10, 0);
+    new VortexField(0, 0, 4, { falloff: 'none', pull: 1 }).apply(point);
+    
+    // Tangential along +y, pulled inward along -x
+    expect(point.force.x).toBeCloseTo(-1);
+    expect(point.force.y).toBeCloseTo(4);
+  });
+  
+  it('produces the same turbulence for the same seed', () => {
+    const a = new Point(120, 80);
+    const b = new Point(120, 80);
+    new TurbulenceField(10, { seed: 3 }).apply(a, 1.5);
+    new TurbulenceField(10, { seed: 3 }).apply(b, 1.5);
+    
+    expect(a.force.x).toBe(b.force.x);
+    expect(a.force.y).toBe(b.force.y);
+    expect(Math.abs(a.force.x) + Math.abs(a.force.y)).toBeGreaterThan(0);
+  });
+});
\ No newline at end of file
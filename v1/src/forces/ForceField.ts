@@ -0,0 +1,35 @@
+import { Point } from '../core/Point';
+
+export type Falloff = 'none' | 'linear' | 'inverseSquare';
+
+/**
+ * An environmental influence evaluated for every point on each step.
+ * Fields push on points through `Point.applyForce`.
+ */
+export interface ForceField {
+  enabled: boolean;
+  apply(point: Point, time: number): void;
+}
+
+/**
+ * Scales a field's strength by distance. Returns 0 outside `radius` (when `radius > 0`).
+ */
+export const computeFalloff = (
+  distance: number,
+  radius: number,
+  falloff: Falloff,
+  minDistance: number = 1
+): number => {
+  if (radius > 0 && distance > radius) return 0;
+  
+  switch (falloff) {
+    case 'linear':
+      return radius > 0 ? 1 - distance / radius : 1;
+    case 'inverseSquare': {
+      const d = Math.max(distance, minDistance);
+      return 1 / (d * d);
+    }
+    default:
+      return 1;
+  }
+};
\ No newline at end of file
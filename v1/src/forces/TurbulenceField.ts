@@ -0,0 +1,42 @@
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { Noise } from '../utils/Noise';
+import { ForceField } from './ForceField';
+
+export interface TurbulenceFieldOptions {
+  scale?: number;
+  speed?: number;
+  seed?: number;
+}
+
+/**
+ * Spatially and temporally varying noise force. The same seed always produces
+ * the same field, so animations are reproducible.
+ */
+export class TurbulenceField implements ForceField {
+  public enabled: boolean;
+  public strength: number;
+  public scale: number;
+  public speed: number;
+  private noise: Noise;
+  
+  constructor(strength: number, options: TurbulenceFieldOptions = {}) {
+    this.enabled = true;
+    this.strength = strength;
+    this.scale = options.scale || 0.01;
+    this.speed = options.speed || 1;
+    this.noise = new Noise(options.seed || 0);
+  }
+  
+  apply(point: Point, time: number): void {
+    const x = point.position.x * this.scale;
+    const y = point.position.y * this.scale;
+    const z = time * this.speed;
+    
+    // Sample two decorrelated channels for the x and y components
+    const fx = this.noise.noise3D(x, y, z);
+    const fy = this.noise.noise3D(x + 31.416, y + 47.853, z);
+    
+    point.applyForce(new Vector2D(fx * this.strength, fy * this.strength));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { ForceField, Falloff, computeFalloff } from './ForceField';
+
+export interface VortexFieldOptions {
+  radius?: number;
+  falloff?: Falloff;
+  pull?: number;
+}
+
+/**
+ * Swirls points around a center. Positive strength turns in the direction of
+ * increasing angle; `pull` adds an inward (or outward, when negative) component.
+ * The swirl is scaled by the point's mass.
+ */
+export class VortexField implements ForceField {
+  public enabled: boolean;
+  public position: Vector2D;
+  public strength: number;
+  public radius: number;
+  public falloff: Falloff;
+  public pull: number;
+  
+  constructor(x: number, y: number, strength: number, options: VortexFieldOptions = {}) {
+    this.enabled = true;
+    this.position = new Vector2D(x, y);
+    this.strength = strength;
+    this.radius = options.radius || 0;
+    this.falloff = options.falloff || 'linear';
+    this.pull = options.pull || 0;
+  }
+  
+  apply(point: Point): void {
+    const dx = point.position.x - this.position.x;
+    const dy = point.position.y - this.position.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    
+    if (distance === 0) return; // Avoid division by zero
+    
+    const factor = computeFalloff(distance, this.radius, this.falloff) * point.mass;
+    if (factor === 0) return;
+    
+    const nx = dx / distance;
+    const ny = dy / distance;
+    
+    // Tangential swirl plus radial pull
+    const fx = (-ny * this.strength - nx * this.pull) * factor;
+    const fy = (nx * this.strength - ny * this.pull) * factor;
+    
+    point.applyForce(new Vector2D(fx, fy));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { Point } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+import { Noise } from '../utils/Noise';
+import { ForceField } from './ForceField';
+
+export interface WindFieldOptions {
+  gustStrength?: number;
+  gustFrequency?: number;
+  seed?: number;
+}
+
+/**
+ * Directional wind. Gusts modulate the strength over time with seeded noise;
+ * lighter points are pushed further than heavy ones.
+ */
+export class WindField implements ForceField {
+  public enabled: boolean;
+  public direction: Vector2D;
+  public strength: number;
+  public gustStrength: number;
+  public gustFrequency: number;
+  private noise: Noise;
+  
+  constructor(direction: Vector2D, strength: number, options: WindFieldOptions = {}) {
+    this.enabled = true;
+    this.direction = direction.clone().normalize();
+    this.strength = strength;
+    this.gustStrength = options.gustStrength || 0;
+    this.gustFrequency = options.gustFrequency || 0.5;
+    this.noise = new Noise(options.seed || 0);
+  }
+  
+  getStrengthAt(time: number): number {
+    if (this.gustStrength === 0) return this.strength;
+    
+    const gust = this.noise.noise1D(time * this.gustFrequency);
+    return this.strength * (1 + this.gustStrength * gust);
+  }
+  
+  apply(point: Point, time: number): void {
+    const strength = this.getStrengthAt(time);
+    point.applyForce(new Vector2D(this.direction.x * strength, this.direction.y * strength));
+  }
+}
\ No newline at end of file
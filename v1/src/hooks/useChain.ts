@@ -1,11 +1,15 @@
 import { useRef, useState, useEffect } from 'react';
-import { Chain } from '../core/Chain';
+import { Chain, SolverMode } from '../core/Chain';
+import { IntegrationMode } from '../core/Point';
 import { Vector2D } from '../utils/Vector';
 import { useAnimationFrame } from './useAnimationFrame';
 
 export interface ChainOptions {
   gravity?: { x: number, y: number };
   iterations?: number;
+  integration?: IntegrationMode;
+  solver?: SolverMode;
+  substeps?: number;
   fps?: number;
   autoStart?: boolean;
 }
@@ -17,6 +21,9 @@ export const useChain = (options: ChainOptions = {}) => {
   const {
     gravity = { x: 0, y: 9.8 },
     iterations = 5,
+    integration = 'explicit',
+    solver = 'pbd',
+    substeps = 1,
     fps = 60,
     autoStart = true
   } = options;
@@ -27,7 +34,7 @@ export const useChain = (options: ChainOptions = {}) => {
   // Initialize chain on first render
   useEffect(() => {
     const gravityVector = new Vector2D(gravity.x, gravity.y);
-    chainRef.current = new Chain(gravityVector);
+    chainRef.current = new Chain(gravityVector, { integration, solver, substeps });
     setIsInitialized(true);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
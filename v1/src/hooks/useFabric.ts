@@ -29,9 +29,9 @@ export const useFabric = (options: FabricOptions = {}) => {
   }, []);
   
   // Animation controls
-  const animationControls = useAnimationFrame(() => {
+  const animationControls = useAnimationFrame((deltaTime) => {
     if (fabricRef.current) {
-      fabricRef.current.solve(iterations);
+      fabricRef.current.solve(iterations, deltaTime);
     }
   }, { fps, paused: !autoStart });
   
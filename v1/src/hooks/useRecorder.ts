@@ -0,0 +1,67 @@
+import { useRef, useState, useEffect } from 'react';
+import { Chain, ChainConfig } from '../core/Chain';
+import { Fabric } from '../ik/Fabric';
+import { Recorder } from '../replay/Recorder';
+import { Vector2D } from '../utils/Vector';
+import { useAnimationFrame } from './useAnimationFrame';
+
+export interface RecorderHookOptions {
+  kind?: 'chain' | 'fabric';
+  gravity?: { x: number, y: number };
+  config?: ChainConfig;
+  timeStep?: number;
+  iterations?: number;
+  fps?: number;
+  autoStart?: boolean;
+}
+
+/**
+ * Hook for a Chain or Fabric stepped in fixed, numbered frames by a `Recorder`.
+ * Animation frames only feed elapsed time, so the simulation does not depend on
+ * their timing; send inputs through the recorder to be able to replay them.
+ */
+export const useRecorder = (options: RecorderHookOptions = {}) => {
+  const {
+    kind = 'chain',
+    gravity = { x: 0, y: 9.8 },
+    config,
+    timeStep = 1 / 60,
+    iterations,
+    fps = 60,
+    autoStart = true
+  } = options;
+  
+  const recorderRef = useRef<Recorder | null>(null);
+  const [isInitialized, setIsInitialized] = useState(false);
+  
+  // Initialize the simulation and its recorder on first render
+  useEffect(() => {
+    const simulation = kind === 'fabric'
+      ? new Fabric()
+      : new Chain(new Vector2D(gravity.x, gravity.y), config);
+    recorderRef.current = new Recorder(simulation, { timeStep, iterations });
+    setIsInitialized(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+  
+  // Animation controls
+  const animationControls = useAnimationFrame((deltaTime) => {
+    if (recorderRef.current) {
+      recorderRef.current.advance(deltaTime);
+    }
+  }, { fps, paused: !autoStart });
+  
+  const renderToCanvas = (ctx: CanvasRenderingContext2D) => {
+    if (recorderRef.current) {
+      recorderRef.current.simulation.render(ctx);
+    }
+  };
+  
+  return {
+    recorder: recorderRef.current,
+    simulation: recorderRef.current ? recorderRef.current.simulation : null,
+    isInitialized,
+    renderToCanvas,
+    ...animationControls
+  };
+};
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { useRef, useState, useEffect } from 'react';
+import { ChainConfig } from '../core/Chain';
+import { SimulationKind, SimulationWorkerPort } from '../worker/Protocol';
+import { SimulationClient } from '../worker/SimulationClient';
+
+export interface SimulationWorkerOptions {
+  kind?: SimulationKind;
+  gravity?: { x: number, y: number };
+  config?: ChainConfig;
+  iterations?: number;
+  fps?: number;
+  autoStart?: boolean;
+  onError?: (message: string) => void;
+}
+
+export type WorkerFactory = () => SimulationWorkerPort & { terminate?: () => void };
+
+/**
+ * Hook for running a Chain or Fabric in a Web Worker. The worker steps on its own
+ * timer, so heavy scenes don't block the main thread; the hook only draws the
+ * latest frame it streamed back.
+ */
+export const useSimulationWorker = (createWorker: WorkerFactory, options: SimulationWorkerOptions = {}) => {
+  const {
+    kind = 'chain',
+    gravity = { x: 0, y: 9.8 },
+    config,
+    iterations = 5,
+    fps = 60,
+    autoStart = true,
+    onError
+  } = options;
+  
+  const clientRef = useRef<SimulationClient | null>(null);
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [isPaused, setIsPaused] = useState(!autoStart);
+  
+  // Start the worker on first render and shut it down on unmount
+  useEffect(() => {
+    const worker = createWorker();
+    const client = new SimulationClient(worker, { onError });
+    client.init(kind, gravity, config);
+    clientRef.current = client;
+    setIsInitialized(true);
+    
+    return () => {
+      client.dispose();
+      if (worker.terminate) {
+        worker.terminate();
+      }
+      clientRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+  
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!isInitialized || !client) return;
+    
+    if (isPaused) {
+      client.stop();
+    } else {
+      client.start(fps, iterations);
+    }
+  }, [isInitialized, isPaused, fps, iterations]);
+  
+  const renderToCanvas = (ctx: CanvasRenderingContext2D) => {
+    if (clientRef.current) {
+      clientRef.current.render(ctx);
+    }
+  };
+  
+  return {
+    client: clientRef.current,
+    isInitialized,
+    renderToCanvas,
+    pause: () => setIsPaused(true),
+    resume: () => setIsPaused(false),
+    isPaused
+  };
+};
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { Fabric } from './Fabric';
+import { Point } from '../core/Point';
+
+describe('Fabric', () => {
+  describe('solve', () => {
+    it('moves dragged points and pulls their joints along', () => {
+      const fabric = new Fabric();
+      const a = fabric.addPoint(new Point(0, 0));
+      const b = fabric.addPoint(new Point(10, 0));
+      fabric.connectPoints(a, b);
+      
+      a.dragTo(-5, 0);
+      fabric.solve(10, 0.1);
+      
+      expect(a.position.x).toBe(-5);
+      expect(a.velocity.x).toBeCloseTo(-50);
+      expect(b.position.x).toBeCloseTo(5);
+    });
+    
+    it('advances its clock for kinematic drivers', () => {
+      const fabric = new Fabric();
+      const point = fabric.addPoint(new Point(0, 0));
+      point.setDriver((time) => ({ x: time * 10, y: 0 }));
+      
+      fabric.solve(1, 0.5);
+      fabric.solve(1, 0.5);
+      
+      expect(fabric.time).toBe(1);
+      expect(point.position.x).toBeCloseTo(10);
+    });
+  });
+  
+  describe('serialization', () => {
+    it('round-trips points, joints and targets', () => {
+      const fabric = new Fabric();
+      fabric.createLeg(0, 0, [10, 10, 10]);
+      fabric.solve();
+      
+      const json = fabric.toJSON();
+      const loaded = Fabric.fromJSON(JSON.stringify(json));
+      
+      expect(loaded.toJSON()).toEqual(json);
+      expect(loaded.targets[0].point).toBe(loaded.points[2]);
+    });
+    
+    it('rejects joints between unknown points', () => {
+      const json = new Fabric().toJSON();
+      json.joints.push({ point1: 1, point2: 2, length: 1 });
+      
+      expect(() => Fabric.fromJSON(json)).toThrow('Unknown point id: 1');
+    });
+  });
+});
\ No newline at end of file
@@ -1,5 +1,10 @@
-import { Point } from '../core/Point';
+import { Point, PointState } from '../core/Point';
 import { Vector2D } from '../utils/Vector';
+import { Collider } from '../collision/Collider';
+import { FabricJSON, PointJSON, SCENE_VERSION, migrateScene, readArray, readNumber, readObject } from '../serialization/Schema';
+
+// Kinematic points ignore gravity; the fabric has none anyway
+const NO_GRAVITY = new Vector2D(0, 0);
 
 export class Target {
   public position: Vector2D;
@@ -25,15 +30,32 @@ export interface TargetConstraint {
   strength: number;
 }
 
+/**
+ * Simulation state of a fabric captured by `Fabric.snapshot`. Like chain snapshots
+ * it refers to the fabric's own points and targets.
+ */
+export interface FabricSnapshot {
+  time: number;
+  points: Point[];
+  pointStates: PointState[];
+  joints: Joint[];
+  targets: TargetConstraint[];
+  targetPositions: Vector2D[];
+}
+
 export class Fabric {
   public points: Point[];
   public joints: Joint[];
   public targets: TargetConstraint[];
+  public colliders: Collider[];
+  public time: number;
   
   constructor() {
     this.points = [];
     this.joints = [];
     this.targets = [];
+    this.colliders = [];
+    this.time = 0;
   }
   
   addPoint(point: Point): Point {
@@ -52,10 +74,38 @@ export class Fabric {
     return target;
   }
   
-  solve(iterations: number = 10): void {
+  addCollider<T extends Collider>(collider: T): T {
+    this.colliders.push(collider);
+    return collider;
+  }
+  
+  removeCollider(collider: Collider): void {
+    const index = this.colliders.indexOf(collider);
+    if (index !== -1) {
+      this.colliders.splice(index, 1);
+    }
+  }
+  
+  /**
+   * Runs one solve. `dt` advances the fabric's clock, which moves kinematic points
+   * (dragged or driven) before the targets and joints are solved.
+   */
+  solve(iterations: number = 10, dt: number = 1 / 60): void {
+    this.time += dt;
+    for (const point of this.points) {
+      if (point.kinematic) {
+        point.update(dt, NO_GRAVITY, this.time);
+      }
+    }
+    
+    // Remember where points started so colliders can tell which side they came from
+    for (const point of this.points) {
+      point.prevPosition.copy(point.position);
+    }
+    
     // First, apply targets
     for (const { point, target, strength } of this.targets) {
-      if (!point.fixed) {
+      if (point.inverseMass !== 0) {
         const dx = (target.position.x - point.position.x) * strength;
         const dy = (target.position.y - point.position.y) * strength;
         point.position.x += dx;
@@ -74,22 +124,30 @@ export class Fabric {
         
         if (currentLength === 0) continue;
         
+        // Heavier points move less; fixed points don't move at all
+        const w1 = point1.inverseMass;
+        const w2 = point2.inverseMass;
+        const wSum = w1 + w2;
+        
+        if (wSum === 0) continue;
+        
         const diff = (length - currentLength) / currentLength;
-        const offsetX = dx * diff * 0.5;
-        const offsetY = dy * diff * 0.5;
+        const offsetX = dx * diff / wSum;
+        const offsetY = dy * diff / wSum;
         
-        // Apply constraints based on whether points are fixed
-        if (!point1.fixed && !point2.fixed) {
-          point1.position.x -= offsetX;
-          point1.position.y -= offsetY;
-          point2.position.x += offsetX;
-          point2.position.y += offsetY;
-        } else if (!point1.fixed) {
-          point1.position.x -= offsetX * 2;
-          point1.position.y -= offsetY * 2;
-        } else if (!point2.fixed) {
-          point2.position.x += offsetX * 2;
-          point2.position.y += offsetY * 2;
+        point1.position.x -= offsetX * w1;
+        point1.position.y -= offsetY * w1;
+        point2.position.x += offsetX * w2;
+        point2.position.y += offsetY * w2;
+      }
+      
+      // Keep joints out of obstacles
+      for (const collider of this.colliders) {
+        if (!collider.enabled) continue;
+        for (const point of this.points) {
+          if (point.inverseMass !== 0) {
+            collider.collide(point);
+          }
         }
       }
     }
@@ -146,6 +204,92 @@ export class Fabric {
     return new Target(x, y);
   }
   
+  /**
+   * Serializes points, joints and targets. Colliders are not included.
+   */
+  toJSON(): FabricJSON {
+    return {
+      version: SCENE_VERSION,
+      type: 'fabric',
+      points: this.points.map((point) => point.toJSON()),
+      joints: this.joints.map((joint) => ({
+        point1: joint.point1.id,
+        point2: joint.point2.id,
+        length: joint.length
+      })),
+      targets: this.targets.map(({ point, target, strength }) => ({
+        point: point.id,
+        x: target.position.x,
+        y: target.position.y,
+        strength: strength
+      }))
+    };
+  }
+  
+  static fromJSON(json: FabricJSON | string): Fabric {
+    const data = migrateScene<FabricJSON>(json, 'fabric');
+    const fabric = new Fabric();
+    const byId = new Map<number, Point>();
+    
+    for (const pointJSON of readArray(data, 'points', 'fabric')) {
+      const point = fabric.addPoint(Point.fromJSON(pointJSON as PointJSON));
+      byId.set(point.id, point);
+    }
+    
+    const resolve = (id: number): Point => {
+      const point = byId.get(id);
+      if (!point) {
+        throw new Error(`Unknown point id: ${id}`);
+      }
+      return point;
+    };
+    
+    for (const value of readArray(data, 'joints', 'fabric')) {
+      const joint = readObject(value, 'joint');
+      fabric.connectPoints(
+        resolve(readNumber(joint, 'point1', 'joint')),
+        resolve(readNumber(joint, 'point2', 'joint')),
+        readNumber(joint, 'length', 'joint')
+      );
+    }
+    for (const value of readArray(data, 'targets', 'fabric')) {
+      const target = readObject(value, 'target');
+      fabric.setTarget(
+        resolve(readNumber(target, 'point', 'target')),
+        readNumber(target, 'x', 'target'),
+        readNumber(target, 'y', 'target'),
+        readNumber(target, 'strength', 'target')
+      );
+    }
+    
+    return fabric;
+  }
+  
+  /**
+   * Captures points, joints and target positions. `Target` objects keep their
+   * identity across `restore`, so handles returned by `setTarget` stay valid.
+   */
+  snapshot(): FabricSnapshot {
+    return {
+      time: this.time,
+      points: this.points.slice(),
+      pointStates: this.points.map((point) => point.saveState()),
+      joints: this.joints.map((joint) => ({ ...joint })),
+      targets: this.targets.map((target) => ({ ...target })),
+      targetPositions: this.targets.map(({ target }) => target.position.clone())
+    };
+  }
+  
+  restore(snapshot: FabricSnapshot): void {
+    this.time = snapshot.time;
+    this.points = snapshot.points.slice();
+    snapshot.points.forEach((point, i) => point.restoreState(snapshot.pointStates[i]));
+    
+    this.joints = snapshot.joints.map((joint) => ({ ...joint }));
+    this.targets = snapshot.targets.map((target) => ({ ...target }));
+    snapshot.targets.forEach(({ target }, i) => target.position.copy(snapshot.targetPositions[i]));
+  }
+  
   render(ctx: CanvasRenderingContext2D): void {
     // Draw joints
     ctx.strokeStyle = '#555';
@@ -1,10 +1,45 @@
 // Core physics classes
 export * from './core/Point';
 export * from './core/Chain';
+export * from './core/Kinematic';
+export * from './core/Island';
 
 // Constraints
+export * from './constraints/Constraint';
 export * from './constraints/DistanceConstraint';
 export * from './constraints/AngleConstraint';
+export * from './constraints/AngularSpringConstraint';
+export * from './constraints/PathConstraint';
+export * from './constraints/AreaConstraint';
+export * from './constraints/ShapeMatchingConstraint';
+
+// Collision
+export * from './collision/PointCollision';
+export * from './collision/Collider';
+export * from './collision/BoundsCollider';
+export * from './collision/BoxCollider';
+export * from './collision/CircleCollider';
+export * from './collision/PolylineCollider';
+export * from './collision/SpatialHash';
+
+// Force fields
+export * from './forces/ForceField';
+export * from './forces/WindField';
+export * from './forces/AttractorField';
+export * from './forces/VortexField';
+export * from './forces/TurbulenceField';
+
+// Builders
+export * from './builders/Joints';
+export * from './builders/Skeleton';
+export * from './builders/CurveLayout';
+export * from './builders/Cloth';
+export * from './builders/Blob';
+
+// Data-oriented backend
+export * from './soa/PointBuffer';
+export * from './soa/ConstraintBuffer';
+export * from './soa/BufferChain';
 
 // Inverse Kinematics
 export * from './ik/Fabric';
@@ -12,15 +47,33 @@ export * from './ik/Fabric';
 // Parametric Equations
 export * from './parametric/Equations';
 
+// Worker simulation
+export * from './worker/Protocol';
+export * from './worker/SimulationHost';
+export * from './worker/SimulationClient';
+
+// Serialization
+export * from './serialization/Schema';
+export * from './serialization/ConstraintTypes';
+
+// Snapshots and replay
+export * from './replay/Recorder';
+
 // Utility classes
 export * from './utils/Vector';
+export * from './utils/Noise';
+export * from './utils/Angle';
+export * from './utils/FixedStep';
 
 // React Hooks
 export * from './hooks/useAnimationFrame';
 export * from './hooks/useChain';
 export * from './hooks/useFabric';
+export * from './hooks/useSimulationWorker';
+export * from './hooks/useRecorder';
 
 // React Components
 export * from './components/ChainCanvas';
 export * from './components/FabricCanvas';
-export * from './components/ParametricCanvas'; 
\ No newline at end of file
+export * from './components/ParametricCanvas';
+export * from './components/WorkerCanvas'; 
\ No newline at end of file
@@ -31,6 +31,50 @@ export class ParametricCurve {
     
     return points;
   }
+  
+  /**
+   * Finds the parameter of the point on the curve closest to `position`, by sampling
+   * `samples` points between `tStart` and `tEnd` and refining around the best one.
+   */
+  getClosestT(position: Vector2D, tStart: number = 0, tEnd: number = 1, samples: number = 64): number {
+    const distanceSqAt = (t: number): number => {
+      const dx = this.xFunction(t) - position.x;
+      const dy = this.yFunction(t) - position.y;
+      return dx * dx + dy * dy;
+    };
+    
+    const step = (tEnd - tStart) / Math.max(samples - 1, 1);
+    let bestT = tStart;
+    let bestDistanceSq = Infinity;
+    
+    for (let i = 0; i < samples; i++) {
+      const t = tStart + step * i;
+      const distanceSq = distanceSqAt(t);
+      if (distanceSq < bestDistanceSq) {
+        bestDistanceSq = distanceSq;
+        bestT = t;
+      }
+    }
+    
+    // Ternary search within the neighbouring samples
+    let low = Math.max(Math.min(tStart, tEnd), bestT - Math.abs(step));
+    let high = Math.min(Math.max(tStart, tEnd), bestT + Math.abs(step));
+    for (let i = 0; i < 20; i++) {
+      const m1 = low + (high - low) / 3;
+      const m2 = high - (high - low) / 3;
+      if (distanceSqAt(m1) < distanceSqAt(m2)) {
+        high = m2;
+      } else {
+        low = m1;
+      }
+    }
+    
+    return (low + high) / 2;
+  }
+  
+  getClosestPoint(position: Vector2D, tStart: number = 0, tEnd: number = 1, samples: number = 64): Vector2D {
+    return this.getPointAt(this.getClosestT(position, tStart, tEnd, samples));
+  }
 }
 
 export class Equations {
@@ -0,0 +1,96 @@
+import { Chain } from '../core/Chain';
+import { Fabric } from '../ik/Fabric';
+import { Vector2D } from '../utils/Vector';
+import { Recorder } from './Recorder';
+
+const createChain = (): Chain => {
+  const chain = new Chain(new Vector2D(0, 100), { integration: 'verlet', solver: 'xpbd' });
+  chain.createChain(0, 0, 8, 10);
+  return chain;
+};
+
+const positionsOf = (simulation: Chain | Fabric): number[] =>
+  simulation.points.reduce<number[]>((all, point) => all.concat(point.position.x, point.position.y), []);
+
+// Drags the tail around, throws it and tilts gravity, one input every few frames
+const record = (recorder: Recorder, frames: number): void => {
+  while (recorder.frame < frames) {
+    const frame = recorder.frame;
+    if (frame === 5) recorder.movePoint(7, 40, 40);
+    if (frame > 5 && frame < 20) recorder.movePoint(7, 40 + frame, 40 - frame);
+    if (frame === 20) recorder.releasePoint(7);
+    if (frame === 25) recorder.applyImpulse(4, 30, -10);
+    if (frame === 30) recorder.setGravity(20, 100);
+    recorder.step();
+  }
+};
+
+describe('Recorder', () => {
+  it('replays a recording bit for bit from a snapshot', () => {
+    const recorder = new Recorder(createChain());
+    record(recorder, 10);
+    const snapshot = recorder.snapshot();
+    record(recorder, 60);
+    const expected = positionsOf(recorder.simulation);
+    const inputs = recorder.inputs.slice();
+    
+    recorder.replay(snapshot, inputs, 60);
+    
+    expect(recorder.frame).toBe(60);
+    expect(recorder.inputs).toEqual(inputs);
+    expect(positionsOf(recorder.simulation)).toEqual(expected);
+  });
+  
+  it('replays a recording on a copy of the starting state', () => {
+    const original = createChain();
+    const copy = Chain.fromJSON(original.toJSON());
+    const recorder = new Recorder(original);
+    record(recorder, 60);
+    
+    const replayer = new Recorder(copy);
+    replayer.replay(replayer.snapshot(), recorder.inputs, 60);
+    
+    expect(positionsOf(copy)).toEqual(positionsOf(original));
+  });
+  
+  it('replays target moves of a fabric', () => {
+    const fabric = new Fabric();
+    fabric.createLeg(0, 0, [20, 20, 20]);
+    const recorder = new Recorder(fabric);
+    const start = recorder.snapshot();
+    
+    recorder.step();
+    recorder.moveTarget(0, 30, 30);
+    for (let i = 0; i < 20; i++) recorder.step();
+    const expected = positionsOf(fabric);
+    
+    recorder.replay(start, recorder.inputs, 21);
+    
+    expect(positionsOf(fabric)).toEqual(expected);
+    expect(fabric.targets[0].target.position.x).toBe(30);
+  });
+  
+  it('advances in whole frames however time is fed', () => {
+    // A binary time step keeps the sums exact
+    const steady = new Recorder(createChain(), { timeStep: 1 / 64 });
+    const irregular = new Recorder(createChain(), { timeStep: 1 / 64 });
+    
+    for (let i = 0; i < 32; i++) steady.advance(1 / 64);
+    for (const dt of [0.125, 0.0625, 0.125, 0.125, 0.0625]) irregular.advance(dt);
+    
+    expect(steady.frame).toBe(32);
+    expect(irregular.frame).toBe(32);
+    expect(positionsOf(irregular.simulation)).toEqual(positionsOf(steady.simulation));
+  });
+  
+  it('rejects invalid inputs and replay frames', () => {
+    const recorder = new Recorder(createChain());
+    recorder.step();
+    const snapshot = recorder.snapshot();
+    
+    expect(() => recorder.moveTarget(0, 0, 0)).toThrow('Invalid input for a chain: moveTarget');
+    expect(() => recorder.movePoint(99, 0, 0)).toThrow('Invalid point index: 99');
+    expect(() => recorder.replay(snapshot, [], 0)).toThrow('Invalid replay frame: 0');
+    expect(() => new Recorder(createChain(), { timeStep: -1 })).toThrow('Invalid time step: -1');
+  });
+});
\ No newline at end of file
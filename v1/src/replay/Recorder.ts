@@ -0,0 +1,227 @@
+import { Chain, ChainSnapshot } from '../core/Chain';
+import { Point } from '../core/Point';
+import { Fabric, FabricSnapshot } from '../ik/Fabric';
+import { Vector2D } from '../utils/Vector';
+import { runFixedSteps } from '../utils/FixedStep';
+
+/**
+ * A user input that changes the simulation between frames. Points and targets are
+ * referred to by index so recordings are plain data and can be saved as JSON.
+ */
+export type SimulationInput =
+  | { type: 'moveTarget', target: number, x: number, y: number }
+  | { type: 'movePoint', index: number, x: number, y: number }
+  | { type: 'releasePoint', index: number }
+  | { type: 'setFixed', index: number, fixed: boolean }
+  | { type: 'applyImpulse', index: number, x: number, y: number }
+  | { type: 'setGravity', x: number, y: number };
+
+export interface RecordedInput {
+  frame: number;
+  input: SimulationInput;
+}
+
+export interface RecorderSnapshot {
+  frame: number;
+  // Number of recorded inputs already applied when the snapshot was taken
+  inputCount: number;
+  state: ChainSnapshot | FabricSnapshot;
+}
+
+export interface RecorderOptions {
+  timeStep?: number;
+  iterations?: number;
+  maxSteps?: number;
+}
+
+/**
+ * Steps a chain or fabric in fixed frames and logs every input with the frame it
+ * was applied on, so a run can be rewound to a snapshot and replayed with
+ * bit-identical results. Simulation time only advances in whole `timeStep` frames,
+ * independent of how often or irregularly `advance` is called.
+ */
+export class Recorder {
+  public simulation: Chain | Fabric;
+  public timeStep: number;
+  public iterations: number;
+  public maxSteps: number;
+  public frame: number;
+  public inputs: RecordedInput[];
+  private accumulator: number;
+  
+  constructor(simulation: Chain | Fabric, options: RecorderOptions = {}) {
+    this.simulation = simulation;
+    this.timeStep = options.timeStep || 1 / 60;
+    this.iterations = options.iterations || (simulation instanceof Fabric ? 10 : 5);
+    this.maxSteps = options.maxSteps || 8;
+    this.frame = 0;
+    this.inputs = [];
+    this.accumulator = 0;
+    
+    if (this.timeStep <= 0) {
+      throw new Error(`Invalid time step: ${this.timeStep}`);
+    }
+  }
+  
+  /**
+   * Applies an input right away and records it for the current frame.
+   */
+  input(input: SimulationInput): void {
+    this.apply(input);
+    this.inputs.push({ frame: this.frame, input });
+  }
+  
+  moveTarget(target: number, x: number, y: number): void {
+    this.input({ type: 'moveTarget', target, x, y });
+  }
+  
+  movePoint(index: number, x: number, y: number): void {
+    this.input({ type: 'movePoint', index, x, y });
+  }
+  
+  releasePoint(index: number): void {
+    this.input({ type: 'releasePoint', index });
+  }
+  
+  setFixed(index: number, fixed: boolean): void {
+    this.input({ type: 'setFixed', index, fixed });
+  }
+  
+  applyImpulse(index: number, x: number, y: number): void {
+    this.input({ type: 'applyImpulse', index, x, y });
+  }
+  
+  setGravity(x: number, y: number): void {
+    this.input({ type: 'setGravity', x, y });
+  }
+  
+  /**
+   * Runs exactly one frame.
+   */
+  step(): void {
+    if (this.simulation instanceof Fabric) {
+      this.simulation.solve(this.iterations, this.timeStep);
+    } else {
+      this.simulation.step(this.timeStep, this.iterations);
+      for (const point of this.simulation.points) {
+        point.interpolate(1);
+      }
+    }
+    
+    this.frame++;
+  }
+  
+  /**
+   * Feeds real elapsed time, e.g. from `useAnimationFrame`, and runs as many whole
+   * frames as it covers. Chain points are interpolated for the leftover fraction;
+   * that only affects `renderPosition`, never the simulation. Returns the number of
+   * frames run.
+   */
+  advance(dt: number): number {
+    const result = runFixedSteps(this.accumulator, dt, this.timeStep, this.maxSteps, () => this.step());
+    this.accumulator = result.accumulator;
+    
+    if (this.simulation instanceof Chain) {
+      for (const point of this.simulation.points) {
+        point.interpolate(result.alpha);
+      }
+    }
+    
+    return result.steps;
+  }
+  
+  snapshot(): RecorderSnapshot {
+    return {
+      frame: this.frame,
+      inputCount: this.inputs.length,
+      state: this.simulation.snapshot()
+    };
+  }
+  
+  /**
+   * Rewinds to a snapshot. Inputs recorded after it are discarded, so recording
+   * carries on from there.
+   */
+  restore(snapshot: RecorderSnapshot): void {
+    if (this.simulation instanceof Fabric) {
+      this.simulation.restore(snapshot.state as FabricSnapshot);
+    } else {
+      this.simulation.restore(snapshot.state as ChainSnapshot);
+    }
+    
+    this.frame = snapshot.frame;
+    this.inputs.length = Math.min(this.inputs.length, snapshot.inputCount);
+    this.accumulator = 0;
+  }
+  
+  /**
+   * Restores `snapshot` and re-runs `inputs` up to `toFrame`, applying each input on
+   * the frame it was recorded. `inputs` is a full recording, such as `inputs` of
+   * this or another recorder started from the same state; the ones already applied
+   * when the snapshot was taken are skipped. Replayed inputs are recorded again.
+   */
+  replay(snapshot: RecorderSnapshot, inputs: RecordedInput[], toFrame: number): void {
+    if (toFrame < snapshot.frame) {
+      throw new Error(`Invalid replay frame: ${toFrame}`);
+    }
+    
+    // `inputs` may be our own log, which restoring truncates
+    const recording = inputs.slice();
+    this.restore(snapshot);
+    
+    let next = snapshot.inputCount;
+    const applyDue = () => {
+      while (next < recording.length && recording[next].frame <= this.frame) {
+        this.input(recording[next++].input);
+      }
+    };
+    
+    applyDue();
+    while (this.frame < toFrame) {
+      this.step();
+      applyDue();
+    }
+  }
+  
+  private apply(input: SimulationInput): void {
+    switch (input.type) {
+      case 'moveTarget': {
+        if (!(this.simulation instanceof Fabric)) {
+          throw new Error(`Invalid input for a chain: ${input.type}`);
+        }
+        const target = this.simulation.targets[input.target];
+        if (!target) {
+          throw new Error(`Invalid target index: ${input.target}`);
+        }
+        target.target.move(input.x, input.y);
+        break;
+      }
+      case 'movePoint':
+        this.getPoint(input.index).dragTo(input.x, input.y);
+        break;
+      case 'releasePoint':
+        this.getPoint(input.index).release();
+        break;
+      case 'setFixed':
+        this.getPoint(input.index).fixed = input.fixed;
+        break;
+      case 'applyImpulse':
+        this.getPoint(input.index).applyImpulse(new Vector2D(input.x, input.y));
+        break;
+      case 'setGravity':
+        if (!(this.simulation instanceof Chain)) {
+          throw new Error(`Invalid input for a fabric: ${input.type}`);
+        }
+        this.simulation.getGravity().set(input.x, input.y);
+        break;
+    }
+  }
+  
+  private getPoint(index: number): Point {
+    const point = this.simulation.points[index];
+    if (!point) {
+      throw new Error(`Invalid point index: ${index}`);
+    }
+    return point;
+  }
+}
\ No newline at end of file
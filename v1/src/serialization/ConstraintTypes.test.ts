@@ -0,0 +1,67 @@
+import { Chain } from '../core/Chain';
+import { Point } from '../core/Point';
+import { Constraint } from '../constraints/Constraint';
+import { ConstraintJSON, readNumber } from './Schema';
+import { registerConstraintType } from './ConstraintTypes';
+import { Vector2D } from '../utils/Vector';
+
+// Keeps a point at or above a horizontal line
+class FloorConstraint implements Constraint {
+  public enabled = true;
+  public priority = 1;
+  public point: Point;
+  public y: number;
+  
+  constructor(point: Point, y: number) {
+    this.point = point;
+    this.y = y;
+  }
+  
+  solve(): void {
+    this.point.position.y = Math.min(this.point.position.y, this.y);
+  }
+  
+  getPoints(): Point[] {
+    return [this.point];
+  }
+  
+  toJSON(): ConstraintJSON {
+    return { type: 'floor', points: [this.point.id], enabled: this.enabled, priority: this.priority, y: this.y };
+  }
+  
+  static fromJSON(json: ConstraintJSON, points: Point[]): FloorConstraint {
+    return new FloorConstraint(points[0], readNumber(json, 'y', 'floor constraint'));
+  }
+}
+
+describe('ConstraintTypes', () => {
+  it('loads registered custom constraint types', () => {
+    const chain = new Chain(new Vector2D(0, 10));
+    const point = chain.points[chain.addPoint(new Point(0, 0))];
+    chain.addConstraint(new FloorConstraint(point, 5));
+    const json = chain.toJSON();
+    
+    expect(() => Chain.fromJSON(json)).toThrow('Unknown constraint type: floor');
+    
+    registerConstraintType('floor', FloorConstraint.fromJSON);
+    const loaded = Chain.fromJSON(JSON.stringify(json));
+    
+    expect(loaded.constraints.length).toBe(1);
+    expect((loaded.constraints[0] as FloorConstraint).y).toBe(5);
+    expect((loaded.constraints[0] as FloorConstraint).point).toBe(loaded.points[0]);
+  });
+  
+  it('checks the common fields', () => {
+    const json = new Chain(new Vector2D(0, 0)).toJSON();
+    json.points = [new Point(0, 0, { id: 1 }).toJSON(), new Point(1, 0, { id: 2 }).toJSON()];
+    const load = (constraint: object) => Chain.fromJSON({ ...json, constraints: [constraint as ConstraintJSON] });
+    const distance = { type: 'distance', points: [1, 2], enabled: true, priority: 0, distance: 1, stiffness: 1, compliance: 0 };
+    
+    expect(load(distance).distanceConstraints.length).toBe(1);
+    expect(() => load({ ...distance, type: 3 })).toThrow('Invalid constraint: type is 3');
+    expect(() => load({ ...distance, points: [] })).toThrow('Invalid distance constraint: no points');
+    expect(() => load({ ...distance, points: [1, 7] })).toThrow('Unknown point id: 7');
+    expect(() => load({ ...distance, enabled: 'yes' })).toThrow('Invalid distance constraint: enabled is yes');
+    expect(() => load({ ...distance, distance: undefined })).toThrow('Invalid distance constraint: distance is undefined');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { Point } from '../core/Point';
+import { Constraint } from '../constraints/Constraint';
+import { DistanceConstraint } from '../constraints/DistanceConstraint';
+import { AngleConstraint } from '../constraints/AngleConstraint';
+import { AngularSpringConstraint } from '../constraints/AngularSpringConstraint';
+import { AreaConstraint } from '../constraints/AreaConstraint';
+import { ShapeMatchingConstraint } from '../constraints/ShapeMatchingConstraint';
+import { ConstraintJSON, readArray, readBoolean, readNumber, readObject, readOptionalNumber } from './Schema';
+
+/**
+ * Recreates a constraint from its JSON, given its points in the order of `json.points`.
+ * The common fields are already checked; use the `read*` helpers of the schema for
+ * the rest.
+ */
+export type ConstraintFactory = (json: ConstraintJSON, points: Point[]) => Constraint;
+
+const factories: { [type: string]: ConstraintFactory } = {
+  distance: DistanceConstraint.fromJSON,
+  angle: AngleConstraint.fromJSON,
+  angularSpring: AngularSpringConstraint.fromJSON,
+  area: AreaConstraint.fromJSON,
+  shapeMatching: ShapeMatchingConstraint.fromJSON
+};
+
+/**
+ * Makes a custom constraint type loadable. Its `toJSON` must return the same `type`.
+ */
+export const registerConstraintType = (type: string, factory: ConstraintFactory): void => {
+  factories[type] = factory;
+};
+
+export const constraintFromJSON = (json: ConstraintJSON, resolve: (id: number) => Point): Constraint => {
+  const data = readObject(json, 'constraint');
+  const type = data.type;
+  if (typeof type !== 'string') {
+    throw new Error(`Invalid constraint: type is ${String(type)}`);
+  }
+  
+  const factory = factories[type];
+  if (!factory) {
+    throw new Error(`Unknown constraint type: ${type}`);
+  }
+  
+  const what = `${type} constraint`;
+  const ids = readArray(data, 'points', what);
+  if (ids.length === 0) {
+    throw new Error(`Invalid ${what}: no points`);
+  }
+  const points = ids.map((id) => {
+    if (typeof id !== 'number') {
+      throw new Error(`Invalid ${what}: point id ${String(id)}`);
+    }
+    return resolve(id);
+  });
+  
+  readBoolean(data, 'enabled', what);
+  readNumber(data, 'priority', what);
+  readOptionalNumber(data, 'breakThreshold', what);
+  
+  return factory(json, points);
+};
\ No newline at end of file
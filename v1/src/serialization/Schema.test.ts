@@ -0,0 +1,42 @@
+import { migrateScene, readNumber, readVector, registerMigration, ChainJSON } from './Schema';
+
+describe('Schema', () => {
+  describe('migrateScene', () => {
+    it('parses strings and checks the scene type', () => {
+      const scene = migrateScene<ChainJSON>('{"version": 1, "type": "chain"}', 'chain');
+      
+      expect(scene.type).toBe('chain');
+      expect(() => migrateScene('{"version": 1, "type": "fabric"}', 'chain'))
+        .toThrow('Invalid scene type: expected chain, got fabric');
+    });
+    
+    it('rejects scenes without a version or from the future', () => {
+      expect(() => migrateScene({ type: 'chain' }, 'chain')).toThrow('Invalid scene: missing version');
+      expect(() => migrateScene({ version: 99, type: 'chain' }, 'chain')).toThrow('Unsupported scene version: 99');
+    });
+    
+    it('runs registered migrations up to the current version', () => {
+      expect(() => migrateScene({ version: 0, type: 'chain' }, 'chain')).toThrow('No migration from scene version 0');
+      
+      registerMigration(0, (data) => ({ ...data, gravity: data.g }));
+      const scene = migrateScene<ChainJSON>({ version: 0, type: 'chain', g: { x: 0, y: 1 } }, 'chain');
+      
+      expect(scene.version).toBe(1);
+      expect(scene.gravity).toEqual({ x: 0, y: 1 });
+    });
+  });
+  
+  describe('readers', () => {
+    it('return valid fields', () => {
+      expect(readNumber({ mass: 2 }, 'mass', 'point')).toBe(2);
+      expect(readVector({ position: { x: 1, y: 2 } }, 'position', 'point')).toEqual({ x: 1, y: 2 });
+    });
+    
+    it('name the field that is missing or has the wrong type', () => {
+      expect(() => readNumber({}, 'mass', 'point')).toThrow('Invalid point: mass is undefined');
+      expect(() => readNumber({ mass: NaN }, 'mass', 'point')).toThrow('Invalid point: mass is NaN');
+      expect(() => readVector({ position: { x: 1, y: '2' } }, 'position', 'point'))
+        .toThrow('Invalid point position: y is 2');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { ChainConfig } from '../core/Chain';
+
+/**
+ * Version written by `toJSON`. Bump it when the format changes and register a
+ * migration from the previous version.
+ */
+export const SCENE_VERSION = 1;
+
+export interface VectorJSON {
+  x: number;
+  y: number;
+}
+
+export interface PointJSON {
+  id: number;
+  position: VectorJSON;
+  prevPosition: VectorJSON;
+  velocity: VectorJSON;
+  bodySize: number;
+  fixed: boolean;
+  mass: number;
+  damping: number;
+  drag: number;
+  collisionGroup: number;
+  collisionMask: number;
+}
+
+/**
+ * Common fields of every serialized constraint. Points are referenced by ID.
+ */
+export interface BaseConstraintJSON {
+  type: string;
+  points: number[];
+  enabled: boolean;
+  priority: number;
+  breakThreshold?: number;
+}
+
+export interface DistanceConstraintJSON extends BaseConstraintJSON {
+  type: 'distance';
+  distance: number;
+  stiffness: number;
+  compliance: number;
+  minDistance?: number;
+  maxDistance?: number;
+}
+
+export interface AngleConstraintJSON extends BaseConstraintJSON {
+  type: 'angle';
+  minAngle: number;
+  maxAngle: number;
+  stiffness: number;
+  compliance: number;
+  signed: boolean;
+}
+
+export interface AngularSpringConstraintJSON extends BaseConstraintJSON {
+  type: 'angularSpring';
+  restAngle: number;
+  stiffness: number;
+  damping: number;
+  compliance?: number;
+}
+
+export interface AreaConstraintJSON extends BaseConstraintJSON {
+  type: 'area';
+  restArea: number;
+  pressure: number;
+  stiffness: number;
+  compliance: number;
+}
+
+export interface ShapeMatchingConstraintJSON extends BaseConstraintJSON {
+  type: 'shapeMatching';
+  stiffness: number;
+  restOffsets: VectorJSON[];
+}
+
+/**
+ * A constraint type added with `registerConstraintType`, with its own fields.
+ */
+export interface CustomConstraintJSON extends BaseConstraintJSON {
+  [key: string]: unknown;
+}
+
+export type ConstraintJSON =
+  | DistanceConstraintJSON
+  | AngleConstraintJSON
+  | AngularSpringConstraintJSON
+  | AreaConstraintJSON
+  | ShapeMatchingConstraintJSON
+  | CustomConstraintJSON;
+
+export interface ChainJSON {
+  version: number;
+  type: 'chain';
+  gravity: VectorJSON;
+  config: ChainConfig;
+  time: number;
+  points: PointJSON[];
+  constraints: ConstraintJSON[];
+}
+
+export interface FabricJSON {
+  version: number;
+  type: 'fabric';
+  points: PointJSON[];
+  joints: { point1: number, point2: number, length: number }[];
+  targets: { point: number, x: number, y: number, strength: number }[];
+}
+
+export type SceneJSON = ChainJSON | FabricJSON;
+
+/**
+ * Upgrades scene data from one version to the next.
+ */
+export type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+const migrations: { [fromVersion: number]: Migration } = {};
+
+/**
+ * Registers the migration from `fromVersion` to `fromVersion + 1`.
+ */
+export const registerMigration = (fromVersion: number, migration: Migration): void => {
+  migrations[fromVersion] = migration;
+};
+
+/**
+ * Parses (if needed) and upgrades scene data to `SCENE_VERSION`, one registered
+ * migration at a time.
+ */
+export const migrateScene = <T extends SceneJSON>(json: string | object, type: T['type']): T => {
+  const parsed: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+  
+  if (!isRecord(parsed) || typeof parsed.version !== 'number') {
+    throw new Error('Invalid scene: missing version');
+  }
+  if (parsed.version > SCENE_VERSION) {
+    throw new Error(`Unsupported scene version: ${parsed.version} (latest is ${SCENE_VERSION})`);
+  }
+  
+  let data = parsed;
+  let version = parsed.version;
+  while (version < SCENE_VERSION) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new Error(`No migration from scene version ${version}`);
+    }
+    version++;
+    data = { ...migration(data), version };
+  }
+  
+  if (data.type !== type) {
+    throw new Error(`Invalid scene type: expected ${type}, got ${String(data.type)}`);
+  }
+  
+  return data as unknown as T;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/*
+ * Field readers for loaded data. Each throws `Invalid <what>: ...` when the field
+ * is missing or has the wrong type, so a malformed scene fails while loading
+ * instead of leaving undefined or NaN in the simulation.
+ */
+
+export const readObject = (value: unknown, what: string): Record<string, unknown> => {
+  if (!isRecord(value)) {
+    throw new Error(`Invalid ${what}: ${String(value)}`);
+  }
+  return value;
+};
+
+export const readArray = (data: object, key: string, what: string): unknown[] => {
+  const value = (data as Record<string, unknown>)[key];
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid ${what}: ${key} is ${String(value)}`);
+  }
+  return value;
+};
+
+export const readNumber = (data: object, key: string, what: string): number => {
+  const value = (data as Record<string, unknown>)[key];
+  if (typeof value !== 'number' || isNaN(value)) {
+    throw new Error(`Invalid ${what}: ${key} is ${String(value)}`);
+  }
+  return value;
+};
+
+export const readOptionalNumber = (data: object, key: string, what: string): number | undefined => {
+  return (data as Record<string, unknown>)[key] === undefined ? undefined : readNumber(data, key, what);
+};
+
+export const readBoolean = (data: object, key: string, what: string): boolean => {
+  const value = (data as Record<string, unknown>)[key];
+  if (typeof value !== 'boolean') {
+    throw new Error(`Invalid ${what}: ${key} is ${String(value)}`);
+  }
+  return value;
+};
+
+export const readOptionalBoolean = (data: object, key: string, what: string): boolean | undefined => {
+  return (data as Record<string, unknown>)[key] === undefined ? undefined : readBoolean(data, key, what);
+};
+
+export const readVector = (data: object, key: string, what: string): VectorJSON => {
+  const value = readObject((data as Record<string, unknown>)[key], `${what} ${key}`);
+  return { x: readNumber(value, 'x', `${what} ${key}`), y: readNumber(value, 'y', `${what} ${key}`) };
+};
\ No newline at end of file
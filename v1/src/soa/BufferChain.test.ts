@@ -0,0 +1,61 @@
+import { Chain, ChainConfig } from '../core/Chain';
+import { Vector2D } from '../utils/Vector';
+import { WindField } from '../forces/WindField';
+import { BufferChain } from './BufferChain';
+
+// A chain hanging sideways from a fixed head, so it swings down
+const createSwingingChain = (config: ChainConfig = {}): Chain => {
+  const chain = new Chain(new Vector2D(0, 100), config);
+  chain.createChain(0, 0, 6, 10);
+  return chain;
+};
+
+describe('BufferChain', () => {
+  for (const config of [
+    { integration: 'explicit', solver: 'pbd' },
+    { integration: 'verlet', solver: 'xpbd', substeps: 2 }
+  ] as ChainConfig[]) {
+    it(`matches Chain with ${config.integration} integration and ${config.solver}`, () => {
+      const chain = createSwingingChain(config);
+      const buffers = BufferChain.fromChain(chain);
+      
+      for (let i = 0; i < 60; i++) {
+        chain.update(1 / 60);
+        buffers.update(1 / 60);
+      }
+      
+      for (let i = 0; i < chain.points.length; i++) {
+        expect(buffers.getPoint(i).position.x).toBeCloseTo(chain.points[i].position.x, 3);
+        expect(buffers.getPoint(i).position.y).toBeCloseTo(chain.points[i].position.y, 3);
+      }
+    });
+  }
+  
+  it('skips empty steps', () => {
+    const buffers = BufferChain.fromChain(createSwingingChain({ solver: 'xpbd' }));
+    
+    buffers.update(0);
+    
+    expect(buffers.time).toBe(0);
+    expect(buffers.getPoint(1).position.x).toBe(10);
+    expect(buffers.getPoint(1).position.y).toBe(0);
+  });
+  
+  it('refuses chains it cannot simulate the same way', () => {
+    const springy = new Chain(new Vector2D(0, 100));
+    springy.createChain(0, 0, 4, 10, 2, { angleMode: 'spring' });
+    expect(() => BufferChain.fromChain(springy)).toThrow('Unsupported in BufferChain: angular springs');
+    
+    const windy = createSwingingChain();
+    windy.addForceField(new WindField(new Vector2D(1, 0), 10));
+    expect(() => BufferChain.fromChain(windy)).toThrow('force fields');
+    
+    const dragged = createSwingingChain();
+    dragged.points[3].dragTo(0, 0);
+    expect(() => BufferChain.fromChain(dragged)).toThrow('kinematic');
+    
+    const breakable = createSwingingChain();
+    breakable.distanceConstraints[0].breakThreshold = 1;
+    expect(() => BufferChain.fromChain(breakable)).toThrow('breakable');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,334 @@
+import { Chain, ChainConfig, SolverMode } from '../core/Chain';
+import { IntegrationMode, PointOptions } from '../core/Point';
+import { DistanceConstraint } from '../constraints/DistanceConstraint';
+import { AngleConstraint } from '../constraints/AngleConstraint';
+import { Vector2D } from '../utils/Vector';
+import { runFixedSteps } from '../utils/FixedStep';
+import { PointBuffer, PointView } from './PointBuffer';
+import {
+  AngleConstraintBuffer,
+  BufferConstraintOptions,
+  BufferDistanceOptions,
+  DistanceConstraintBuffer
+} from './ConstraintBuffer';
+
+export type BufferChainConfig = Pick<ChainConfig, 'integration' | 'solver' | 'substeps' | 'fixedTimeStep' | 'maxSteps'>;
+
+/**
+ * Data-oriented alternative to `Chain` for large scenes. Points and constraints
+ * live in typed arrays and constraints refer to points by index, so stepping does
+ * not allocate. Integration, solvers, substeps and the fixed timestep behave like
+ * `Chain`; colliders, force fields, custom constraints and topology editing are
+ * only available on `Chain`.
+ */
+export class BufferChain {
+  public points: PointBuffer;
+  public distanceConstraints: DistanceConstraintBuffer;
+  public angleConstraints: AngleConstraintBuffer;
+  public integration: IntegrationMode;
+  public solver: SolverMode;
+  public substeps: number;
+  public fixedTimeStep: number;
+  public maxSteps: number;
+  public time: number;
+  private gravity: Vector2D;
+  private accumulator: number;
+  
+  constructor(gravity: Vector2D = new Vector2D(0, 9.8), config: BufferChainConfig = {}) {
+    this.points = new PointBuffer();
+    this.distanceConstraints = new DistanceConstraintBuffer();
+    this.angleConstraints = new AngleConstraintBuffer();
+    this.gravity = gravity;
+    this.integration = config.integration || 'explicit';
+    this.solver = config.solver || 'pbd';
+    this.substeps = Math.max(1, Math.floor(config.substeps || 1));
+    this.fixedTimeStep = config.fixedTimeStep || 0;
+    this.maxSteps = config.maxSteps || 8;
+    this.time = 0;
+    this.accumulator = 0;
+  }
+  
+  /**
+   * Copies the points, distance constraints (including ranges) and unsigned angle
+   * constraints of a `Chain`. Point indices are kept; disabled constraints are left
+   * out. Throws if the chain uses anything the buffers can't represent, rather than
+   * silently simulating something else.
+   */
+  static fromChain(chain: Chain, config: BufferChainConfig = {}): BufferChain {
+    const unsupported = (feature: string) => new Error(`Unsupported in BufferChain: ${feature}`);
+    
+    if (chain.angularSprings.some((spring) => spring.enabled)) throw unsupported('angular springs');
+    if (chain.constraints.some((constraint) => constraint.enabled)) throw unsupported('custom or path constraints');
+    if (chain.angleConstraints.some((constraint) => constraint.enabled && constraint.signed)) {
+      throw unsupported('signed angle constraints');
+    }
+    if (chain.getSolveOrder().some((constraint) => constraint.breakThreshold !== undefined)) {
+      throw unsupported('breakable constraints');
+    }
+    // The buffers always solve every distance constraint before every angle limit
+    const enabled = chain.getSolveOrder();
+    const lastDistance = enabled.map((constraint) => constraint instanceof DistanceConstraint).lastIndexOf(true);
+    const firstAngle = enabled.map((constraint) => constraint instanceof AngleConstraint).indexOf(true);
+    if (firstAngle !== -1 && lastDistance > firstAngle) {
+      throw unsupported('angle limits solved before distance constraints');
+    }
+    if (chain.points.some((point) => point.kinematic)) throw unsupported('kinematic drivers and drags');
+    if (chain.forceFields.length > 0) throw unsupported('force fields');
+    if (chain.colliders.length > 0 || chain.collisionChains.length > 0 || chain.selfCollision) {
+      throw unsupported('collisions');
+    }
+    
+    const result = new BufferChain(chain.getGravity().clone(), {
+      integration: chain.integration,
+      solver: chain.solver,
+      substeps: chain.substeps,
+      fixedTimeStep: chain.fixedTimeStep,
+      maxSteps: chain.maxSteps,
+      ...config
+    });
+    
+    for (const point of chain.points) {
+      const index = result.addPoint(point.position.x, point.position.y, {
+        bodySize: point.bodySize,
+        fixed: point.fixed,
+        mass: point.mass,
+        damping: point.damping,
+        drag: point.drag
+      });
+      const view = result.getPoint(index);
+      view.prevPosition.copy(point.prevPosition);
+      view.velocity.copy(point.velocity);
+    }
+    
+    for (const constraint of chain.distanceConstraints) {
+      if (!constraint.enabled) continue;
+      result.distanceConstraints.add(
+        chain.points.indexOf(constraint.point1),
+        chain.points.indexOf(constraint.point2),
+        constraint.distance,
+        {
+          stiffness: constraint.stiffness,
+          compliance: constraint.compliance,
+          minDistance: constraint.minDistance,
+          maxDistance: constraint.maxDistance
+        }
+      );
+    }
+    
+    for (const constraint of chain.angleConstraints) {
+      if (!constraint.enabled) continue;
+      result.angleConstraints.add(
+        chain.points.indexOf(constraint.point1),
+        chain.points.indexOf(constraint.point2),
+        chain.points.indexOf(constraint.point3),
+        constraint.minAngle,
+        constraint.maxAngle,
+        { stiffness: constraint.stiffness, compliance: constraint.compliance }
+      );
+    }
+    
+    return result;
+  }
+  
+  get pointCount(): number {
+    return this.points.count;
+  }
+  
+  addPoint(x: number, y: number, options: PointOptions = {}): number {
+    return this.points.add(x, y, options);
+  }
+  
+  getPoint(index: number): PointView {
+    return this.points.get(index);
+  }
+  
+  addDistanceConstraint(
+    p1Index: number,
+    p2Index: number,
+    distance?: number,
+    options: BufferDistanceOptions = {}
+  ): number {
+    this.checkIndices(p1Index, p2Index);
+    
+    const positions = this.points.positions;
+    const targetDistance = distance || Math.sqrt(
+      Math.pow(positions[p2Index * 2] - positions[p1Index * 2], 2) +
+      Math.pow(positions[p2Index * 2 + 1] - positions[p1Index * 2 + 1], 2)
+    );
+    
+    return this.distanceConstraints.add(p1Index, p2Index, targetDistance, options);
+  }
+  
+  addAngleConstraint(
+    p1Index: number,
+    p2Index: number,
+    p3Index: number,
+    minAngle: number = 0,
+    maxAngle: number = Math.PI,
+    options: BufferConstraintOptions = {}
+  ): number {
+    this.checkIndices(p1Index, p2Index, p3Index);
+    return this.angleConstraints.add(p1Index, p2Index, p3Index, minAngle, maxAngle, options);
+  }
+  
+  /**
+   * Same layout as `Chain.createChain` in `'limit'` mode.
+   */
+  createChain(
+    startX: number,
+    startY: number,
+    count: number,
+    segmentLength: number,
+    bodySize?: number
+  ): void {
+    const base = this.points.count;
+    
+    this.addPoint(startX, startY, { fixed: true, bodySize: bodySize });
+    
+    for (let i = 1; i < count; i++) {
+      this.addPoint(startX + i * segmentLength, startY, { bodySize: bodySize });
+      this.addDistanceConstraint(base + i - 1, base + i, segmentLength);
+      
+      if (i >= 2) {
+        this.addAngleConstraint(base + i - 2, base + i - 1, base + i, Math.PI / 8, Math.PI - Math.PI / 8);
+      }
+    }
+  }
+  
+  update(dt: number, iterations: number = 5): void {
+    let alpha = 1;
+    
+    if (this.fixedTimeStep > 0) {
+      const result = runFixedSteps(this.accumulator, dt, this.fixedTimeStep, this.maxSteps, () => {
+        this.step(this.fixedTimeStep, iterations);
+      });
+      this.accumulator = result.accumulator;
+      alpha = result.alpha;
+    } else {
+      this.step(dt, iterations);
+    }
+    
+    const start = this.points.stepStartPositions;
+    const positions = this.points.positions;
+    const render = this.points.renderPositions;
+    for (let i = 0; i < this.points.count * 2; i++) {
+      render[i] = start[i] + (positions[i] - start[i]) * alpha;
+    }
+  }
+  
+  step(dt: number, iterations: number = 5): void {
+    this.points.stepStartPositions.set(this.points.positions.subarray(0, this.points.count * 2));
+    
+    const substepDt = dt / this.substeps;
+    for (let i = 0; i < this.substeps; i++) {
+      this.substep(substepDt, iterations);
+    }
+  }
+  
+  render(ctx: CanvasRenderingContext2D): void {
+    const render = this.points.renderPositions;
+    const distances = this.distanceConstraints;
+    
+    ctx.strokeStyle = '#555';
+    ctx.lineWidth = 2;
+    
+    for (let i = 0; i < distances.count; i++) {
+      const a = distances.point1[i] * 2;
+      const b = distances.point2[i] * 2;
+      ctx.beginPath();
+      ctx.moveTo(render[a], render[a + 1]);
+      ctx.lineTo(render[b], render[b + 1]);
+      ctx.stroke();
+    }
+    
+    ctx.fillStyle = '#333';
+    for (let i = 0; i < this.points.count; i++) {
+      ctx.beginPath();
+      ctx.arc(render[i * 2], render[i * 2 + 1], this.points.bodySizes[i], 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+  
+  private substep(dt: number, iterations: number): void {
+    // Nothing moves in an empty step, and XPBD compliance is scaled by 1/dt²
+    if (dt <= 0) return;
+    
+    this.time += dt;
+    this.integrate(dt);
+    
+    if (this.solver === 'xpbd') {
+      this.distanceConstraints.resetLambda();
+      this.angleConstraints.resetLambda();
+    }
+    
+    for (let i = 0; i < iterations; i++) {
+      if (this.solver === 'xpbd') {
+        this.distanceConstraints.solveXPBD(this.points, dt);
+        this.angleConstraints.solveXPBD(this.points, dt);
+      } else {
+        this.distanceConstraints.solve(this.points);
+        this.angleConstraints.solve(this.points);
+      }
+    }
+    
+    // In Verlet mode the constraint corrections become part of the motion
+    if (this.integration === 'verlet') {
+      const { positions, prevPositions, velocities, fixed } = this.points;
+      for (let i = 0; i < this.points.count; i++) {
+        if (fixed[i]) continue;
+        velocities[i * 2] = (positions[i * 2] - prevPositions[i * 2]) / dt;
+        velocities[i * 2 + 1] = (positions[i * 2 + 1] - prevPositions[i * 2 + 1]) / dt;
+      }
+    }
+  }
+  
+  /**
+   * Same integration as `Point.update`, over all points at once.
+   */
+  private integrate(dt: number): void {
+    const { positions, prevPositions, velocities, forces, masses, damping, drag, fixed } = this.points;
+    const gx = this.gravity.x;
+    const gy = this.gravity.y;
+    
+    for (let i = 0; i < this.points.count; i++) {
+      const x = i * 2;
+      const y = x + 1;
+      
+      if (fixed[i]) {
+        forces[x] = forces[y] = 0;
+        continue;
+      }
+      
+      prevPositions[x] = positions[x];
+      prevPositions[y] = positions[y];
+      
+      // Quadratic air drag opposes the direction of motion
+      if (drag[i] > 0) {
+        const speed = Math.sqrt(velocities[x] * velocities[x] + velocities[y] * velocities[y]);
+        forces[x] -= drag[i] * speed * velocities[x];
+        forces[y] -= drag[i] * speed * velocities[y];
+      }
+      
+      velocities[x] += (gx + forces[x] / masses[i]) * dt;
+      velocities[y] += (gy + forces[y] / masses[i]) * dt;
+      forces[x] = forces[y] = 0;
+      
+      if (damping[i] > 0) {
+        const factor = Math.max(0, 1 - damping[i] * dt);
+        velocities[x] *= factor;
+        velocities[y] *= factor;
+      }
+      
+      positions[x] += velocities[x] * dt;
+      positions[y] += velocities[y] * dt;
+    }
+  }
+  
+  private checkIndices(...indices: number[]): void {
+    for (const index of indices) {
+      if (index < 0 || index >= this.points.count) {
+        throw new Error(`Invalid point indices: ${indices.join(', ')}`);
+      }
+    }
+  }
+}
\ No newline at end of file
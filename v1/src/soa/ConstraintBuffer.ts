@@ -0,0 +1,301 @@
+import { growTypedArray, PointBuffer } from './PointBuffer';
+
+export interface BufferConstraintOptions {
+  stiffness?: number;
+  compliance?: number;
+}
+
+export interface BufferDistanceOptions extends BufferConstraintOptions {
+  minDistance?: number;
+  maxDistance?: number;
+}
+
+/**
+ * Distance constraints of the data-oriented backend, stored as parallel typed
+ * arrays of point indices and parameters. Solves like `DistanceConstraint`,
+ * including range links with a minimum and/or maximum distance.
+ */
+export class DistanceConstraintBuffer {
+  public count: number;
+  public capacity: number;
+  public point1: Uint32Array;
+  public point2: Uint32Array;
+  public distances: Float64Array;
+  // Range links (1) clamp to [minDistances, maxDistances] instead of `distances`
+  public ranged: Uint8Array;
+  public minDistances: Float64Array;
+  public maxDistances: Float64Array;
+  public stiffness: Float64Array;
+  public compliance: Float64Array;
+  public lambdas: Float64Array;
+  
+  constructor(capacity: number = 64) {
+    this.count = 0;
+    this.capacity = Math.max(1, capacity);
+    this.point1 = new Uint32Array(this.capacity);
+    this.point2 = new Uint32Array(this.capacity);
+    this.distances = new Float64Array(this.capacity);
+    this.ranged = new Uint8Array(this.capacity);
+    this.minDistances = new Float64Array(this.capacity);
+    this.maxDistances = new Float64Array(this.capacity);
+    this.stiffness = new Float64Array(this.capacity);
+    this.compliance = new Float64Array(this.capacity);
+    this.lambdas = new Float64Array(this.capacity);
+  }
+  
+  add(p1: number, p2: number, distance: number, options: BufferDistanceOptions = {}): number {
+    if (this.count === this.capacity) {
+      this.grow(this.capacity * 2);
+    }
+    
+    const index = this.count++;
+    this.point1[index] = p1;
+    this.point2[index] = p2;
+    this.distances[index] = distance;
+    this.ranged[index] = options.minDistance !== undefined || options.maxDistance !== undefined ? 1 : 0;
+    this.minDistances[index] = options.minDistance !== undefined ? options.minDistance : 0;
+    this.maxDistances[index] = options.maxDistance !== undefined ? options.maxDistance : Infinity;
+    this.stiffness[index] = options.stiffness !== undefined ? options.stiffness : 1;
+    this.compliance[index] = options.compliance || 0;
+    this.lambdas[index] = 0;
+    
+    return index;
+  }
+  
+  solve(points: PointBuffer): void {
+    const positions = points.positions;
+    const inverseMasses = points.inverseMasses;
+    
+    for (let i = 0; i < this.count; i++) {
+      const a = this.point1[i];
+      const b = this.point2[i];
+      const w1 = inverseMasses[a];
+      const w2 = inverseMasses[b];
+      const wSum = w1 + w2;
+      if (wSum === 0) continue;
+      
+      const dx = positions[b * 2] - positions[a * 2];
+      const dy = positions[b * 2 + 1] - positions[a * 2 + 1];
+      const currentDistance = Math.sqrt(dx * dx + dy * dy);
+      if (currentDistance === 0) continue;
+      
+      const targetDistance = this.getTargetDistance(i, currentDistance);
+      if (targetDistance === currentDistance) continue;
+      
+      const difference = (targetDistance - currentDistance) / currentDistance;
+      const offsetX = dx * difference * this.stiffness[i] / wSum;
+      const offsetY = dy * difference * this.stiffness[i] / wSum;
+      
+      positions[a * 2] -= offsetX * w1;
+      positions[a * 2 + 1] -= offsetY * w1;
+      positions[b * 2] += offsetX * w2;
+      positions[b * 2 + 1] += offsetY * w2;
+    }
+  }
+  
+  solveXPBD(points: PointBuffer, dt: number): void {
+    const positions = points.positions;
+    const inverseMasses = points.inverseMasses;
+    
+    for (let i = 0; i < this.count; i++) {
+      const a = this.point1[i];
+      const b = this.point2[i];
+      const w1 = inverseMasses[a];
+      const w2 = inverseMasses[b];
+      const alpha = this.compliance[i] / (dt * dt);
+      const denominator = w1 + w2 + alpha;
+      if (denominator === 0) continue;
+      
+      const dx = positions[b * 2] - positions[a * 2];
+      const dy = positions[b * 2 + 1] - positions[a * 2 + 1];
+      const currentDistance = Math.sqrt(dx * dx + dy * dy);
+      if (currentDistance === 0) continue;
+      
+      const targetDistance = this.getTargetDistance(i, currentDistance);
+      if (targetDistance === currentDistance) continue;
+      
+      const c = currentDistance - targetDistance;
+      const deltaLambda = (-c - alpha * this.lambdas[i]) / denominator;
+      this.lambdas[i] += deltaLambda;
+      
+      const offsetX = dx / currentDistance * deltaLambda;
+      const offsetY = dy / currentDistance * deltaLambda;
+      
+      positions[a * 2] -= offsetX * w1;
+      positions[a * 2 + 1] -= offsetY * w1;
+      positions[b * 2] += offsetX * w2;
+      positions[b * 2 + 1] += offsetY * w2;
+    }
+  }
+  
+  resetLambda(): void {
+    this.lambdas.fill(0, 0, this.count);
+  }
+  
+  /**
+   * Distance constraint `i` pulls towards: its rest distance, or the current
+   * distance clamped to its range.
+   */
+  getTargetDistance(i: number, currentDistance: number): number {
+    if (!this.ranged[i]) return this.distances[i];
+    return Math.max(this.minDistances[i], Math.min(this.maxDistances[i], currentDistance));
+  }
+  
+  private grow(capacity: number): void {
+    this.capacity = capacity;
+    this.point1 = growTypedArray(this.point1, capacity);
+    this.point2 = growTypedArray(this.point2, capacity);
+    this.distances = growTypedArray(this.distances, capacity);
+    this.ranged = growTypedArray(this.ranged, capacity);
+    this.minDistances = growTypedArray(this.minDistances, capacity);
+    this.maxDistances = growTypedArray(this.maxDistances, capacity);
+    this.stiffness = growTypedArray(this.stiffness, capacity);
+    this.compliance = growTypedArray(this.compliance, capacity);
+    this.lambdas = growTypedArray(this.lambdas, capacity);
+  }
+}
+
+/**
+ * Unsigned angle limits of the data-oriented backend, solved like an unsigned
+ * `AngleConstraint`.
+ */
+export class AngleConstraintBuffer {
+  public count: number;
+  public capacity: number;
+  public point1: Uint32Array;
+  public point2: Uint32Array;
+  public point3: Uint32Array;
+  public minAngles: Float64Array;
+  public maxAngles: Float64Array;
+  public stiffness: Float64Array;
+  public compliance: Float64Array;
+  public lambdas: Float64Array;
+  
+  constructor(capacity: number = 64) {
+    this.count = 0;
+    this.capacity = Math.max(1, capacity);
+    this.point1 = new Uint32Array(this.capacity);
+    this.point2 = new Uint32Array(this.capacity);
+    this.point3 = new Uint32Array(this.capacity);
+    this.minAngles = new Float64Array(this.capacity);
+    this.maxAngles = new Float64Array(this.capacity);
+    this.stiffness = new Float64Array(this.capacity);
+    this.compliance = new Float64Array(this.capacity);
+    this.lambdas = new Float64Array(this.capacity);
+  }
+  
+  add(
+    p1: number,
+    p2: number,
+    p3: number,
+    minAngle: number,
+    maxAngle: number,
+    options: BufferConstraintOptions = {}
+  ): number {
+    if (this.count === this.capacity) {
+      this.grow(this.capacity * 2);
+    }
+    
+    const index = this.count++;
+    this.point1[index] = p1;
+    this.point2[index] = p2;
+    this.point3[index] = p3;
+    this.minAngles[index] = minAngle;
+    this.maxAngles[index] = maxAngle;
+    this.stiffness[index] = options.stiffness !== undefined ? options.stiffness : 0.5;
+    this.compliance[index] = options.compliance || 0;
+    this.lambdas[index] = 0;
+    
+    return index;
+  }
+  
+  solve(points: PointBuffer): void {
+    for (let i = 0; i < this.count; i++) {
+      this.solveOne(points, i, 0);
+    }
+  }
+  
+  solveXPBD(points: PointBuffer, dt: number): void {
+    for (let i = 0; i < this.count; i++) {
+      this.solveOne(points, i, dt);
+    }
+  }
+  
+  resetLambda(): void {
+    this.lambdas.fill(0, 0, this.count);
+  }
+  
+  /**
+   * Solves constraint `i`; PBD when `dt` is 0, XPBD otherwise.
+   */
+  private solveOne(points: PointBuffer, i: number, dt: number): void {
+    const positions = points.positions;
+    const inverseMasses = points.inverseMasses;
+    const a = this.point1[i] * 2;
+    const b = this.point2[i] * 2;
+    const c = this.point3[i] * 2;
+    
+    const ax = positions[a] - positions[b];
+    const ay = positions[a + 1] - positions[b + 1];
+    const bx = positions[c] - positions[b];
+    const by = positions[c + 1] - positions[b + 1];
+    const lenSqA = ax * ax + ay * ay;
+    const lenSqB = bx * bx + by * by;
+    if (lenSqA === 0 || lenSqB === 0) return;
+    
+    const angle = Math.atan2(ax * by - ay * bx, ax * bx + ay * by);
+    const magnitude = Math.abs(angle);
+    let error = 0;
+    if (magnitude < this.minAngles[i]) error = this.minAngles[i] - magnitude;
+    if (magnitude > this.maxAngles[i]) error = this.maxAngles[i] - magnitude;
+    if (angle < 0) error = -error;
+    
+    if (error === 0 || (dt === 0 && Math.abs(error) < 0.001)) return;
+    
+    // Same gradient as `computeAngleGradient`
+    const g1x = ay / lenSqA;
+    const g1y = -ax / lenSqA;
+    const g3x = -by / lenSqB;
+    const g3y = bx / lenSqB;
+    const g2x = -(g1x + g3x);
+    const g2y = -(g1y + g3y);
+    
+    const w1 = inverseMasses[this.point1[i]];
+    const w2 = inverseMasses[this.point2[i]];
+    const w3 = inverseMasses[this.point3[i]];
+    const weightSum =
+      w1 * (g1x * g1x + g1y * g1y) +
+      w2 * (g2x * g2x + g2y * g2y) +
+      w3 * (g3x * g3x + g3y * g3y);
+    const alpha = dt > 0 ? this.compliance[i] / (dt * dt) : 0;
+    if (weightSum + alpha === 0) return;
+    
+    let scale: number;
+    if (dt === 0) {
+      scale = error * this.stiffness[i] / weightSum;
+    } else {
+      const deltaLambda = (error - alpha * this.lambdas[i]) / (weightSum + alpha);
+      this.lambdas[i] += deltaLambda;
+      scale = deltaLambda;
+    }
+    
+    positions[a] += g1x * w1 * scale;
+    positions[a + 1] += g1y * w1 * scale;
+    positions[b] += g2x * w2 * scale;
+    positions[b + 1] += g2y * w2 * scale;
+    positions[c] += g3x * w3 * scale;
+    positions[c + 1] += g3y * w3 * scale;
+  }
+  
+  private grow(capacity: number): void {
+    this.capacity = capacity;
+    this.point1 = growTypedArray(this.point1, capacity);
+    this.point2 = growTypedArray(this.point2, capacity);
+    this.point3 = growTypedArray(this.point3, capacity);
+    this.minAngles = growTypedArray(this.minAngles, capacity);
+    this.maxAngles = growTypedArray(this.maxAngles, capacity);
+    this.stiffness = growTypedArray(this.stiffness, capacity);
+    this.compliance = growTypedArray(this.compliance, capacity);
+    this.lambdas = growTypedArray(this.lambdas, capacity);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,265 @@
+import { PointOptions } from '../core/Point';
+import { Vector2D } from '../utils/Vector';
+
+/**
+ * Returns a copy of a typed array with room for `length` elements.
+ */
+export const growTypedArray = <T extends Float64Array | Uint32Array | Uint8Array>(array: T, length: number): T => {
+  const grown = new (array.constructor as { new (length: number): T })(length);
+  (grown as Float64Array).set(array as Float64Array);
+  return grown;
+};
+
+/**
+ * A `Vector2D`-like view of one (x, y) pair inside an interleaved typed array.
+ * Writing `x` or `y` writes straight into the buffer.
+ */
+export class BufferVector {
+  public array: Float64Array;
+  public offset: number;
+  
+  constructor(array: Float64Array, offset: number) {
+    this.array = array;
+    this.offset = offset;
+  }
+  
+  get x(): number {
+    return this.array[this.offset];
+  }
+  
+  set x(value: number) {
+    this.array[this.offset] = value;
+  }
+  
+  get y(): number {
+    return this.array[this.offset + 1];
+  }
+  
+  set y(value: number) {
+    this.array[this.offset + 1] = value;
+  }
+  
+  set(x: number, y: number): BufferVector {
+    this.array[this.offset] = x;
+    this.array[this.offset + 1] = y;
+    return this;
+  }
+  
+  copy(v: { x: number, y: number }): BufferVector {
+    return this.set(v.x, v.y);
+  }
+  
+  clone(): Vector2D {
+    return new Vector2D(this.x, this.y);
+  }
+  
+  length(): number {
+    return Math.sqrt(this.x * this.x + this.y * this.y);
+  }
+  
+  distance(v: { x: number, y: number }): number {
+    const dx = this.x - v.x;
+    const dy = this.y - v.y;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+}
+
+/**
+ * Point storage for the data-oriented backend. Every attribute lives in its own
+ * typed array indexed by point (vectors are interleaved x, y pairs), so a step runs
+ * over flat memory without allocating.
+ */
+export class PointBuffer {
+  public count: number;
+  public capacity: number;
+  public positions: Float64Array;
+  public prevPositions: Float64Array;
+  public stepStartPositions: Float64Array;
+  public renderPositions: Float64Array;
+  public velocities: Float64Array;
+  public forces: Float64Array;
+  public masses: Float64Array;
+  // 0 for fixed points; kept in sync with `masses` and `fixed`
+  public inverseMasses: Float64Array;
+  public bodySizes: Float64Array;
+  public damping: Float64Array;
+  public drag: Float64Array;
+  public fixed: Uint8Array;
+  private views: PointView[];
+  
+  constructor(capacity: number = 64) {
+    this.count = 0;
+    this.capacity = Math.max(1, capacity);
+    this.positions = new Float64Array(this.capacity * 2);
+    this.prevPositions = new Float64Array(this.capacity * 2);
+    this.stepStartPositions = new Float64Array(this.capacity * 2);
+    this.renderPositions = new Float64Array(this.capacity * 2);
+    this.velocities = new Float64Array(this.capacity * 2);
+    this.forces = new Float64Array(this.capacity * 2);
+    this.masses = new Float64Array(this.capacity);
+    this.inverseMasses = new Float64Array(this.capacity);
+    this.bodySizes = new Float64Array(this.capacity);
+    this.damping = new Float64Array(this.capacity);
+    this.drag = new Float64Array(this.capacity);
+    this.fixed = new Uint8Array(this.capacity);
+    this.views = [];
+  }
+  
+  add(x: number, y: number, options: PointOptions = {}): number {
+    if (this.count === this.capacity) {
+      this.grow(this.capacity * 2);
+    }
+    
+    const index = this.count++;
+    const i2 = index * 2;
+    
+    this.positions[i2] = this.prevPositions[i2] = this.stepStartPositions[i2] = this.renderPositions[i2] = x;
+    this.positions[i2 + 1] = this.prevPositions[i2 + 1] = this.stepStartPositions[i2 + 1] = this.renderPositions[i2 + 1] = y;
+    this.velocities[i2] = this.velocities[i2 + 1] = 0;
+    this.forces[i2] = this.forces[i2 + 1] = 0;
+    this.masses[index] = options.mass || 1;
+    this.fixed[index] = options.fixed ? 1 : 0;
+    this.inverseMasses[index] = options.fixed ? 0 : 1 / this.masses[index];
+    this.bodySizes[index] = options.bodySize || 1;
+    this.damping[index] = options.damping || 0;
+    this.drag[index] = options.drag || 0;
+    
+    return index;
+  }
+  
+  setFixed(index: number, fixed: boolean): void {
+    this.fixed[index] = fixed ? 1 : 0;
+    this.inverseMasses[index] = fixed ? 0 : 1 / this.masses[index];
+  }
+  
+  setMass(index: number, mass: number): void {
+    this.masses[index] = mass;
+    this.inverseMasses[index] = this.fixed[index] ? 0 : 1 / mass;
+  }
+  
+  /**
+   * A `Point`-like object reading and writing the buffer at `index`. Views are
+   * cached and stay valid when the buffer grows.
+   */
+  get(index: number): PointView {
+    if (index < 0 || index >= this.count) {
+      throw new Error(`Invalid point index: ${index}`);
+    }
+    
+    if (!this.views[index]) {
+      this.views[index] = new PointView(this, index);
+    }
+    return this.views[index];
+  }
+  
+  private grow(capacity: number): void {
+    this.capacity = capacity;
+    this.positions = growTypedArray(this.positions, capacity * 2);
+    this.prevPositions = growTypedArray(this.prevPositions, capacity * 2);
+    this.stepStartPositions = growTypedArray(this.stepStartPositions, capacity * 2);
+    this.renderPositions = growTypedArray(this.renderPositions, capacity * 2);
+    this.velocities = growTypedArray(this.velocities, capacity * 2);
+    this.forces = growTypedArray(this.forces, capacity * 2);
+    this.masses = growTypedArray(this.masses, capacity);
+    this.inverseMasses = growTypedArray(this.inverseMasses, capacity);
+    this.bodySizes = growTypedArray(this.bodySizes, capacity);
+    this.damping = growTypedArray(this.damping, capacity);
+    this.drag = growTypedArray(this.drag, capacity);
+    this.fixed = growTypedArray(this.fixed, capacity);
+    
+    // Point existing views at the new arrays
+    for (const view of this.views) {
+      if (view) view.bind();
+    }
+  }
+}
+
+/**
+ * Compatibility view with the same shape as `Point` for the commonly used members.
+ */
+export class PointView {
+  public buffer: PointBuffer;
+  public index: number;
+  public position: BufferVector;
+  public prevPosition: BufferVector;
+  public renderPosition: BufferVector;
+  public velocity: BufferVector;
+  public force: BufferVector;
+  
+  constructor(buffer: PointBuffer, index: number) {
+    this.buffer = buffer;
+    this.index = index;
+    this.position = new BufferVector(buffer.positions, index * 2);
+    this.prevPosition = new BufferVector(buffer.prevPositions, index * 2);
+    this.renderPosition = new BufferVector(buffer.renderPositions, index * 2);
+    this.velocity = new BufferVector(buffer.velocities, index * 2);
+    this.force = new BufferVector(buffer.forces, index * 2);
+  }
+  
+  get mass(): number {
+    return this.buffer.masses[this.index];
+  }
+  
+  set mass(value: number) {
+    this.buffer.setMass(this.index, value);
+  }
+  
+  get inverseMass(): number {
+    return this.buffer.inverseMasses[this.index];
+  }
+  
+  get fixed(): boolean {
+    return this.buffer.fixed[this.index] === 1;
+  }
+  
+  set fixed(value: boolean) {
+    this.buffer.setFixed(this.index, value);
+  }
+  
+  get bodySize(): number {
+    return this.buffer.bodySizes[this.index];
+  }
+  
+  set bodySize(value: number) {
+    this.buffer.bodySizes[this.index] = value;
+  }
+  
+  get damping(): number {
+    return this.buffer.damping[this.index];
+  }
+  
+  set damping(value: number) {
+    this.buffer.damping[this.index] = value;
+  }
+  
+  get drag(): number {
+    return this.buffer.drag[this.index];
+  }
+  
+  set drag(value: number) {
+    this.buffer.drag[this.index] = value;
+  }
+  
+  applyForce(force: { x: number, y: number }): void {
+    this.force.set(this.force.x + force.x, this.force.y + force.y);
+  }
+  
+  applyImpulse(impulse: { x: number, y: number }): void {
+    if (this.inverseMass === 0) return;
+    this.velocity.set(
+      this.velocity.x + impulse.x / this.mass,
+      this.velocity.y + impulse.y / this.mass
+    );
+  }
+  
+  /**
+   * Re-attaches the vector views after the buffer reallocated its arrays.
+   */
+  bind(): void {
+    this.position.array = this.buffer.positions;
+    this.prevPosition.array = this.buffer.prevPositions;
+    this.renderPosition.array = this.buffer.renderPositions;
+    this.velocity.array = this.buffer.velocities;
+    this.force.array = this.buffer.forces;
+  }
+}
\ No newline at end of file
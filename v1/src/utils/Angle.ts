@@ -0,0 +1,21 @@
+/**
+ * Wraps an angle in radians into the range (-π, π].
+ */
+export const wrapAngle = (angle: number): number => {
+  const twoPi = Math.PI * 2;
+  let wrapped = angle % twoPi;
+  
+  if (wrapped <= -Math.PI) wrapped += twoPi;
+  if (wrapped > Math.PI) wrapped -= twoPi;
+  
+  return wrapped;
+};
+
+/**
+ * Signed angle in (-π, π] turning from vector (ax, ay) to vector (bx, by).
+ * Returns 0 when either vector has zero length.
+ */
+export const signedAngle = (ax: number, ay: number, bx: number, by: number): number => {
+  if ((ax === 0 && ay === 0) || (bx === 0 && by === 0)) return 0;
+  return Math.atan2(ax * by - ay * bx, ax * bx + ay * by);
+};
\ No newline at end of file
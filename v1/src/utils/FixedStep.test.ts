@@ -0,0 +1,22 @@
+import { runFixedSteps } from './FixedStep';
+
+describe('runFixedSteps', () => {
+  it('runs one step per whole time step and carries the rest over', () => {
+    let count = 0;
+    const result = runFixedSteps(0.25, 2.5, 1, 8, () => count++);
+    
+    expect(count).toBe(2);
+    expect(result.steps).toBe(2);
+    expect(result.accumulator).toBeCloseTo(0.75);
+    expect(result.alpha).toBeCloseTo(0.75);
+  });
+  
+  it('drops time beyond maxSteps', () => {
+    let count = 0;
+    const result = runFixedSteps(0, 10, 1, 3, () => count++);
+    
+    expect(count).toBe(3);
+    expect(result.accumulator).toBe(0);
+    expect(result.alpha).toBe(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,37 @@
+export interface FixedStepResult {
+  // Number of steps run
+  steps: number;
+  // Time carried over to the next call
+  accumulator: number;
+  // Leftover fraction of a step, for render interpolation
+  alpha: number;
+}
+
+/**
+ * Adds `dt` to `accumulator` and calls `step` once for every whole `timeStep` it
+ * covers, at most `maxSteps` times. Time that can't be caught up on within
+ * `maxSteps` is dropped instead of spiralling; the steps themselves always have
+ * the same length, so results stay deterministic either way.
+ */
+export const runFixedSteps = (
+  accumulator: number,
+  dt: number,
+  timeStep: number,
+  maxSteps: number,
+  step: () => void
+): FixedStepResult => {
+  accumulator += dt;
+  
+  let steps = 0;
+  while (accumulator >= timeStep && steps < maxSteps) {
+    step();
+    accumulator -= timeStep;
+    steps++;
+  }
+  
+  if (accumulator >= timeStep) {
+    accumulator = 0;
+  }
+  
+  return { steps, accumulator, alpha: accumulator / timeStep };
+};
\ No newline at end of file
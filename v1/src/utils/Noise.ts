@@ -0,0 +1,85 @@
+/**
+ * Seeded pseudo-random generator (mulberry32). Returns values in [0, 1).
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Seeded 3D value noise with smooth interpolation. Output is in [-1, 1].
+ */
+export class Noise {
+  private permutation: number[];
+  private values: number[];
+  
+  constructor(seed: number = 0) {
+    const random = createRandom(seed);
+    
+    this.values = [];
+    for (let i = 0; i < 256; i++) {
+      this.values.push(random() * 2 - 1);
+    }
+    
+    // Shuffled lookup table, doubled to avoid index wrapping
+    const table: number[] = [];
+    for (let i = 0; i < 256; i++) {
+      table.push(i);
+    }
+    for (let i = 255; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      const tmp = table[i];
+      table[i] = table[j];
+      table[j] = tmp;
+    }
+    this.permutation = table.concat(table);
+  }
+  
+  noise1D(x: number): number {
+    return this.noise3D(x, 0, 0);
+  }
+  
+  noise2D(x: number, y: number): number {
+    return this.noise3D(x, y, 0);
+  }
+  
+  noise3D(x: number, y: number, z: number): number {
+    const xi = Math.floor(x);
+    const yi = Math.floor(y);
+    const zi = Math.floor(z);
+    const tx = smooth(x - xi);
+    const ty = smooth(y - yi);
+    const tz = smooth(z - zi);
+    
+    const c000 = this.lattice(xi, yi, zi);
+    const c100 = this.lattice(xi + 1, yi, zi);
+    const c010 = this.lattice(xi, yi + 1, zi);
+    const c110 = this.lattice(xi + 1, yi + 1, zi);
+    const c001 = this.lattice(xi, yi, zi + 1);
+    const c101 = this.lattice(xi + 1, yi, zi + 1);
+    const c011 = this.lattice(xi, yi + 1, zi + 1);
+    const c111 = this.lattice(xi + 1, yi + 1, zi + 1);
+    
+    const x00 = lerp(c000, c100, tx);
+    const x10 = lerp(c010, c110, tx);
+    const x01 = lerp(c001, c101, tx);
+    const x11 = lerp(c011, c111, tx);
+    
+    return lerp(lerp(x00, x10, ty), lerp(x01, x11, ty), tz);
+  }
+  
+  private lattice(x: number, y: number, z: number): number {
+    const p = this.permutation;
+    return this.values[p[p[p[x & 255] + (y & 255)] + (z & 255)]];
+  }
+}
+
+const smooth = (t: number): number => t * t * (3 - 2 * t);
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
\ No newline at end of file
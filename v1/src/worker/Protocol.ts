@@ -0,0 +1,83 @@
+import { ChainConfig, CreateChainOptions } from '../core/Chain';
+import { PointOptions } from '../core/Point';
+
+export type SimulationKind = 'chain' | 'fabric';
+
+/**
+ * Messages sent to the worker. Points and targets are referred to by the index
+ * they were created at.
+ */
+export type SimulationCommand =
+  | { type: 'init', kind: SimulationKind, gravity?: { x: number, y: number }, config?: ChainConfig }
+  | { type: 'addPoint', x: number, y: number, options?: PointOptions }
+  | { type: 'connect', p1: number, p2: number, distance?: number }
+  | { type: 'createChain', startX: number, startY: number, count: number, segmentLength: number, bodySize?: number, options?: CreateChainOptions }
+  | { type: 'createLeg', x: number, y: number, segments: number[], fixStart?: boolean }
+  | { type: 'setTarget', index: number, x: number, y: number, strength?: number }
+  | { type: 'moveTarget', target: number, x: number, y: number }
+  | { type: 'movePoint', index: number, x: number, y: number }
+  | { type: 'releasePoint', index: number }
+  | { type: 'setFixed', index: number, fixed: boolean }
+  | { type: 'setGravity', x: number, y: number }
+  | { type: 'start', fps?: number, iterations?: number }
+  | { type: 'stop' }
+  | { type: 'step', dt: number, iterations?: number }
+  | { type: 'recycle', buffer: ArrayBuffer }
+  | { type: 'dispose' };
+
+/**
+ * Positions after a step, as interleaved x, y pairs in a transferred buffer.
+ * `topology` is only included when points or links changed since the last frame.
+ */
+export interface SimulationFrame {
+  type: 'frame';
+  frame: number;
+  time: number;
+  positions: Float64Array;
+  targets: Float64Array;
+  topology?: SimulationTopology;
+}
+
+export interface SimulationTopology {
+  links: Uint32Array;
+  bodySizes: Float64Array;
+  fixed: Uint8Array;
+}
+
+export interface SimulationError {
+  type: 'error';
+  message: string;
+}
+
+export type SimulationMessage = SimulationFrame | SimulationError;
+
+/**
+ * The parts of a `Worker`, `DedicatedWorkerGlobalScope` or `worker_threads`
+ * port that the simulation needs, receiving `Incoming` and sending `Outgoing`
+ * messages. Node ports deliver messages through `on`, browsers through
+ * `addEventListener`.
+ */
+export interface WorkerPort<Incoming = unknown, Outgoing = unknown> {
+  postMessage(message: Outgoing, transfer: ArrayBuffer[]): void;
+  on?(event: 'message', listener: (data: Incoming) => void): void;
+  addEventListener?(event: 'message', listener: (event: { data: Incoming }) => void): void;
+}
+
+/** Port of the worker as seen from the main thread. */
+export type SimulationWorkerPort = WorkerPort<SimulationMessage, SimulationCommand>;
+
+/** Port of the main thread as seen from inside the worker. */
+export type SimulationHostPort = WorkerPort<SimulationCommand, SimulationMessage>;
+
+/**
+ * Subscribes to messages on either kind of port.
+ */
+export const listen = <Incoming>(port: WorkerPort<Incoming, unknown>, listener: (data: Incoming) => void): void => {
+  if (port.on) {
+    port.on('message', listener);
+  } else if (port.addEventListener) {
+    port.addEventListener('message', (event) => listener(event.data));
+  } else {
+    throw new Error('Worker port does not support message listeners');
+  }
+};
\ No newline at end of file
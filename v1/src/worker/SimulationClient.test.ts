@@ -0,0 +1,100 @@
+import { MessageChannel, MessagePort } from 'worker_threads';
+import { hostSimulation } from './SimulationHost';
+import { SimulationClient, SimulationClientOptions } from './SimulationClient';
+import { SimulationFrame, SimulationHostPort, SimulationWorkerPort } from './Protocol';
+
+// A host and a client talking over a worker_threads channel, as they would
+// across a real worker
+const ports: MessagePort[] = [];
+const connect = (options?: SimulationClientOptions): SimulationClient => {
+  const { port1, port2 } = new MessageChannel();
+  ports.push(port1, port2);
+  
+  // Node types the ports' addEventListener with DOM events, but the simulation
+  // listens through `on`
+  hostSimulation(port1 as unknown as SimulationHostPort);
+  return new SimulationClient(port2 as unknown as SimulationWorkerPort, options);
+};
+
+const nextFrame = (client: SimulationClient): Promise<SimulationFrame> => new Promise((resolve) => {
+  const stop = client.onFrame((frame) => {
+    stop();
+    resolve(frame);
+  });
+});
+
+describe('SimulationClient', () => {
+  afterEach(() => {
+    ports.splice(0).forEach((port) => port.close());
+  });
+  
+  it('receives frames with the simulated positions', async () => {
+    const client = connect();
+    client.init('chain', { x: 0, y: 100 });
+    const head = client.createChain(0, 0, 4, 10);
+    
+    client.step(1 / 60);
+    const first = await nextFrame(client);
+    client.step(1 / 60);
+    const second = await nextFrame(client);
+    
+    expect(head).toBe(0);
+    expect(client.pointCount).toBe(4);
+    expect(first.frame + 1).toBe(second.frame);
+    expect(client.time).toBeCloseTo(2 / 60);
+    expect(client.positions.length).toBe(8);
+    expect(client.getPosition(0)).toEqual({ x: 0, y: 0 });
+    expect(client.getPosition(3).y).toBeGreaterThan(0);
+  });
+  
+  it('only receives the topology when it changes', async () => {
+    const client = connect();
+    client.init('chain', { x: 0, y: 0 });
+    client.createChain(0, 0, 3, 10);
+    
+    client.step(1 / 60);
+    const built = await nextFrame(client);
+    client.step(1 / 60);
+    const unchanged = await nextFrame(client);
+    client.addPoint(30, 0);
+    client.connect(2, 3);
+    client.step(1 / 60);
+    const extended = await nextFrame(client);
+    
+    expect(built.topology && Array.from(built.topology.links)).toEqual([0, 1, 1, 2]);
+    expect(built.topology && Array.from(built.topology.fixed)).toEqual([1, 0, 0]);
+    expect(unchanged.topology).toBeUndefined();
+    expect(extended.topology && Array.from(extended.topology.links)).toEqual([0, 1, 1, 2, 2, 3]);
+    expect(client.topology.bodySizes.length).toBe(4);
+  });
+  
+  it('reports failed commands and keeps running', async () => {
+    const errors: string[] = [];
+    const client = connect({ onError: (message) => errors.push(message) });
+    client.init('chain');
+    client.addPoint(0, 0);
+    
+    client.movePoint(5, 0, 0);
+    client.step(1 / 60);
+    await nextFrame(client);
+    
+    expect(errors).toEqual(['Invalid point index: 5']);
+    expect(client.positions.length).toBe(2);
+  });
+  
+  it('only counts targets the fabric drives', async () => {
+    const client = connect();
+    client.init('fabric');
+    const stump = client.createLeg(0, 0, [10]);
+    const leg = client.createLeg(50, 0, [10, 10]);
+    
+    client.moveTarget(leg, 70, 40);
+    client.step(1 / 60);
+    await nextFrame(client);
+    
+    expect(stump).toBe(-1);
+    expect(leg).toBe(0);
+    expect(client.targetCount).toBe(1);
+    expect(Array.from(client.targets)).toEqual([70, 40]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,218 @@
+import { ChainConfig, CreateChainOptions } from '../core/Chain';
+import { PointOptions } from '../core/Point';
+import {
+  listen,
+  SimulationCommand,
+  SimulationFrame,
+  SimulationKind,
+  SimulationMessage,
+  SimulationTopology,
+  SimulationWorkerPort
+} from './Protocol';
+
+export type SimulationFrameListener = (frame: SimulationFrame) => void;
+
+export interface SimulationClientOptions {
+  // Called when a command or step fails in the worker; errors are dropped without it
+  onError?: (message: string) => void;
+}
+
+/**
+ * Main-thread side of a worker simulation. Sends commands to a worker running
+ * `hostSimulation` and keeps the latest frame for rendering, handing each
+ * frame's buffer back to the worker once a newer one arrives.
+ */
+export class SimulationClient {
+  public worker: SimulationWorkerPort;
+  public kind: SimulationKind | null;
+  public positions: Float64Array;
+  public targets: Float64Array;
+  public topology: SimulationTopology;
+  public frame: number;
+  public time: number;
+  public pointCount: number;
+  public targetCount: number;
+  private listeners: SimulationFrameListener[];
+  private onError: (message: string) => void;
+  
+  constructor(worker: SimulationWorkerPort, options: SimulationClientOptions = {}) {
+    this.worker = worker;
+    this.kind = null;
+    this.positions = new Float64Array(0);
+    this.targets = new Float64Array(0);
+    this.topology = { links: new Uint32Array(0), bodySizes: new Float64Array(0), fixed: new Uint8Array(0) };
+    this.frame = 0;
+    this.time = 0;
+    this.pointCount = 0;
+    this.targetCount = 0;
+    this.listeners = [];
+    this.onError = options.onError || (() => undefined);
+    
+    listen(worker, (message) => this.receive(message));
+  }
+  
+  send(command: SimulationCommand, transfer: ArrayBuffer[] = []): void {
+    this.worker.postMessage(command, transfer);
+  }
+  
+  init(kind: SimulationKind, gravity?: { x: number, y: number }, config?: ChainConfig): void {
+    this.kind = kind;
+    this.pointCount = 0;
+    this.targetCount = 0;
+    this.send({ type: 'init', kind, gravity, config });
+  }
+  
+  /**
+   * Adds a point and returns the index it will have in the worker.
+   */
+  addPoint(x: number, y: number, options?: PointOptions): number {
+    this.send({ type: 'addPoint', x, y, options });
+    return this.pointCount++;
+  }
+  
+  connect(p1: number, p2: number, distance?: number): void {
+    this.send({ type: 'connect', p1, p2, distance });
+  }
+  
+  /**
+   * Runs `Chain.createChain` in the worker. Returns the index of the first point.
+   */
+  createChain(
+    startX: number,
+    startY: number,
+    count: number,
+    segmentLength: number,
+    bodySize?: number,
+    options?: CreateChainOptions
+  ): number {
+    this.send({ type: 'createChain', startX, startY, count, segmentLength, bodySize, options });
+    this.pointCount += count;
+    return this.pointCount - count;
+  }
+  
+  /**
+   * Runs `Fabric.createLeg` in the worker. Returns the index of the leg's target, or
+   * -1 for a leg of a single segment, which has none.
+   */
+  createLeg(x: number, y: number, segments: number[], fixStart?: boolean): number {
+    this.send({ type: 'createLeg', x, y, segments, fixStart });
+    this.pointCount += segments.length;
+    return segments.length > 1 ? this.targetCount++ : -1;
+  }
+  
+  setTarget(index: number, x: number, y: number, strength?: number): number {
+    this.send({ type: 'setTarget', index, x, y, strength });
+    return this.targetCount++;
+  }
+  
+  moveTarget(target: number, x: number, y: number): void {
+    this.send({ type: 'moveTarget', target, x, y });
+  }
+  
+  movePoint(index: number, x: number, y: number): void {
+    this.send({ type: 'movePoint', index, x, y });
+  }
+  
+  releasePoint(index: number): void {
+    this.send({ type: 'releasePoint', index });
+  }
+  
+  setFixed(index: number, fixed: boolean): void {
+    this.send({ type: 'setFixed', index, fixed });
+  }
+  
+  setGravity(x: number, y: number): void {
+    this.send({ type: 'setGravity', x, y });
+  }
+  
+  start(fps?: number, iterations?: number): void {
+    this.send({ type: 'start', fps, iterations });
+  }
+  
+  stop(): void {
+    this.send({ type: 'stop' });
+  }
+  
+  step(dt: number, iterations?: number): void {
+    this.send({ type: 'step', dt, iterations });
+  }
+  
+  dispose(): void {
+    this.send({ type: 'dispose' });
+  }
+  
+  onFrame(listener: SimulationFrameListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+  
+  getPosition(index: number): { x: number, y: number } {
+    return { x: this.positions[index * 2], y: this.positions[index * 2 + 1] };
+  }
+  
+  /**
+   * Draws the latest frame the way `Chain.render` and `Fabric.render` do.
+   */
+  render(ctx: CanvasRenderingContext2D): void {
+    const { positions, targets } = this;
+    const { links, bodySizes } = this.topology;
+    const count = Math.min(positions.length / 2, bodySizes.length);
+    
+    ctx.strokeStyle = '#555';
+    ctx.lineWidth = 2;
+    for (let i = 0; i < links.length; i += 2) {
+      const a = links[i] * 2;
+      const b = links[i + 1] * 2;
+      if (a >= positions.length || b >= positions.length) continue;
+      
+      ctx.beginPath();
+      ctx.moveTo(positions[a], positions[a + 1]);
+      ctx.lineTo(positions[b], positions[b + 1]);
+      ctx.stroke();
+    }
+    
+    ctx.fillStyle = '#333';
+    for (let i = 0; i < count; i++) {
+      ctx.beginPath();
+      ctx.arc(positions[i * 2], positions[i * 2 + 1], bodySizes[i], 0, Math.PI * 2);
+      ctx.fill();
+    }
+    
+    ctx.fillStyle = 'rgba(255, 0, 0, 0.3)';
+    for (let i = 0; i < targets.length; i += 2) {
+      ctx.beginPath();
+      ctx.arc(targets[i], targets[i + 1], 5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+  
+  private receive(message: SimulationMessage): void {
+    if (message.type === 'error') {
+      this.onError(message.message);
+      return;
+    }
+    
+    // The previous frame's buffer goes back to the worker for reuse
+    const previous = this.positions.buffer as ArrayBuffer;
+    if (previous.byteLength > 0) {
+      this.send({ type: 'recycle', buffer: previous }, [previous]);
+    }
+    
+    this.positions = message.positions;
+    this.targets = message.targets;
+    this.frame = message.frame;
+    this.time = message.time;
+    if (message.topology) {
+      this.topology = message.topology;
+    }
+    
+    for (const listener of this.listeners) {
+      listener(message);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,287 @@
+import { Chain } from '../core/Chain';
+import { Point } from '../core/Point';
+import { Fabric, Target } from '../ik/Fabric';
+import { Vector2D } from '../utils/Vector';
+import { listen, SimulationCommand, SimulationHostPort, SimulationMessage, SimulationTopology } from './Protocol';
+
+/**
+ * Owns a `Chain` or `Fabric` inside a worker, applies incoming commands and
+ * sends the positions back after every step. Independent of the messaging
+ * environment: `hostSimulation` wires it to a worker port.
+ */
+export class SimulationHost {
+  public chain: Chain | null;
+  public fabric: Fabric | null;
+  public frame: number;
+  public iterations: number;
+  private send: (message: SimulationMessage, transfer: ArrayBuffer[]) => void;
+  private fabricTargets: Target[];
+  private timer: ReturnType<typeof setInterval> | null;
+  // Bumped by commands and steps that change points, links or pins
+  private topologyVersion: number;
+  private sentTopologyVersion: number;
+  // Buffers handed back by the client, reused for later frames
+  private pool: ArrayBuffer[];
+  
+  constructor(send: (message: SimulationMessage, transfer: ArrayBuffer[]) => void) {
+    this.send = send;
+    this.chain = null;
+    this.fabric = null;
+    this.frame = 0;
+    this.iterations = 5;
+    this.fabricTargets = [];
+    this.timer = null;
+    this.topologyVersion = 0;
+    this.sentTopologyVersion = -1;
+    this.pool = [];
+  }
+  
+  handle(command: SimulationCommand): void {
+    try {
+      this.apply(command);
+    } catch (error) {
+      this.sendError(error);
+    }
+  }
+  
+  /**
+   * Advances the simulation by `dt` seconds and sends a frame.
+   */
+  step(dt: number, iterations: number = this.iterations): void {
+    if (this.chain) {
+      const links = this.chain.distanceConstraints.length;
+      this.chain.update(dt, iterations);
+      
+      // Links only disappear during a step, when they tear
+      if (this.chain.distanceConstraints.length !== links) this.topologyVersion++;
+    } else if (this.fabric) {
+      this.fabric.solve(iterations, dt);
+    } else {
+      return;
+    }
+    
+    this.frame++;
+    this.sendFrame();
+  }
+  
+  start(fps: number = 60): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      try {
+        this.step(1 / fps);
+      } catch (error) {
+        // Don't keep failing every frame
+        this.stop();
+        this.sendError(error);
+      }
+    }, 1000 / fps);
+  }
+  
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+  
+  private apply(command: SimulationCommand): void {
+    switch (command.type) {
+      case 'init': {
+        this.stop();
+        const gravity = command.gravity || { x: 0, y: 9.8 };
+        this.chain = command.kind === 'chain' ? new Chain(new Vector2D(gravity.x, gravity.y), command.config) : null;
+        this.fabric = command.kind === 'fabric' ? new Fabric() : null;
+        this.fabricTargets = [];
+        this.frame = 0;
+        this.topologyVersion++;
+        break;
+      }
+      case 'addPoint': {
+        const point = new Point(command.x, command.y, command.options);
+        if (this.fabric) {
+          this.fabric.addPoint(point);
+        } else {
+          this.getChain().addPoint(point);
+        }
+        this.topologyVersion++;
+        break;
+      }
+      case 'connect':
+        if (this.fabric) {
+          this.fabric.connectPoints(this.getPoint(command.p1), this.getPoint(command.p2), command.distance);
+        } else {
+          this.getChain().addDistanceConstraint(command.p1, command.p2, command.distance);
+        }
+        this.topologyVersion++;
+        break;
+      case 'createChain':
+        this.getChain().createChain(
+          command.startX,
+          command.startY,
+          command.count,
+          command.segmentLength,
+          command.bodySize,
+          command.options
+        );
+        this.topologyVersion++;
+        break;
+      case 'createLeg': {
+        const fabric = this.getFabric();
+        const target = fabric.createLeg(command.x, command.y, command.segments, command.fixStart);
+        
+        // Legs of a single segment return a target that isn't part of the fabric
+        if (fabric.targets.some((constraint) => constraint.target === target)) {
+          this.fabricTargets.push(target);
+        }
+        this.topologyVersion++;
+        break;
+      }
+      case 'setTarget':
+        this.fabricTargets.push(this.getFabric().setTarget(this.getPoint(command.index), command.x, command.y, command.strength));
+        break;
+      case 'moveTarget': {
+        const target = this.fabricTargets[command.target];
+        if (!target) {
+          throw new Error(`Invalid target index: ${command.target}`);
+        }
+        target.move(command.x, command.y);
+        break;
+      }
+      case 'movePoint':
+        this.getPoint(command.index).dragTo(command.x, command.y);
+        break;
+      case 'releasePoint':
+        this.getPoint(command.index).release();
+        break;
+      case 'setFixed':
+        this.getPoint(command.index).fixed = command.fixed;
+        this.topologyVersion++;
+        break;
+      case 'setGravity':
+        this.getChain().getGravity().set(command.x, command.y);
+        break;
+      case 'start':
+        if (command.iterations !== undefined) this.iterations = command.iterations;
+        this.start(command.fps);
+        break;
+      case 'stop':
+        this.stop();
+        break;
+      case 'step':
+        this.step(command.dt, command.iterations);
+        break;
+      case 'recycle':
+        this.pool.push(command.buffer);
+        break;
+      case 'dispose':
+        this.stop();
+        this.chain = null;
+        this.fabric = null;
+        this.pool = [];
+        break;
+    }
+  }
+  
+  private sendFrame(): void {
+    const points = this.getPoints();
+    const positions = this.takeBuffer(points.length * 2);
+    
+    for (let i = 0; i < points.length; i++) {
+      // Chains interpolate between fixed steps; IK points are drawn where they are
+      const position = this.chain ? points[i].renderPosition : points[i].position;
+      positions[i * 2] = position.x;
+      positions[i * 2 + 1] = position.y;
+    }
+    
+    const targets = new Float64Array(this.fabricTargets.length * 2);
+    this.fabricTargets.forEach((target, i) => {
+      targets[i * 2] = target.position.x;
+      targets[i * 2 + 1] = target.position.y;
+    });
+    
+    const topology = this.getTopologyChange();
+    const transfer = [positions.buffer, targets.buffer];
+    if (topology) {
+      transfer.push(topology.links.buffer, topology.bodySizes.buffer, topology.fixed.buffer);
+    }
+    
+    this.send({
+      type: 'frame',
+      frame: this.frame,
+      time: this.chain ? this.chain.time : 0,
+      positions: positions,
+      targets: targets,
+      topology: topology || undefined
+    }, transfer as ArrayBuffer[]);
+  }
+  
+  private takeBuffer(length: number): Float64Array {
+    const buffer = this.pool.pop();
+    return buffer && buffer.byteLength === length * 8 ? new Float64Array(buffer) : new Float64Array(length);
+  }
+  
+  /**
+   * Links and point attributes, when they changed since the last frame.
+   */
+  private getTopologyChange(): SimulationTopology | null {
+    if (this.topologyVersion === this.sentTopologyVersion) return null;
+    this.sentTopologyVersion = this.topologyVersion;
+    
+    const points = this.getPoints();
+    const links: [Point, Point][] = this.chain
+      ? this.chain.distanceConstraints.map((constraint): [Point, Point] => [constraint.point1, constraint.point2])
+      : this.getFabric().joints.map((joint): [Point, Point] => [joint.point1, joint.point2]);
+    
+    const indices = new Uint32Array(links.length * 2);
+    links.forEach(([a, b], i) => {
+      indices[i * 2] = points.indexOf(a);
+      indices[i * 2 + 1] = points.indexOf(b);
+    });
+    
+    return {
+      links: indices,
+      bodySizes: Float64Array.from(points.map((point) => point.bodySize)),
+      fixed: Uint8Array.from(points.map((point) => point.fixed ? 1 : 0))
+    };
+  }
+  
+  private sendError(error: unknown): void {
+    this.send({ type: 'error', message: error instanceof Error ? error.message : String(error) }, []);
+  }
+  
+  private getPoints(): Point[] {
+    return this.chain ? this.chain.points : this.fabric ? this.fabric.points : [];
+  }
+  
+  private getPoint(index: number): Point {
+    const point = this.getPoints()[index];
+    if (!point) {
+      throw new Error(`Invalid point index: ${index}`);
+    }
+    return point;
+  }
+  
+  private getChain(): Chain {
+    if (!this.chain) {
+      throw new Error('No chain simulation; send an init command with kind "chain" first');
+    }
+    return this.chain;
+  }
+  
+  private getFabric(): Fabric {
+    if (!this.fabric) {
+      throw new Error('No fabric simulation; send an init command with kind "fabric" first');
+    }
+    return this.fabric;
+  }
+}
+
+/**
+ * Runs a `SimulationHost` on a worker port: `self` in a browser worker, or
+ * `parentPort` from `worker_threads` in Node.
+ */
+export const hostSimulation = (port: SimulationHostPort): SimulationHost => {
+  const host = new SimulationHost((message, transfer) => port.postMessage(message, transfer));
+  listen(port, (command) => host.handle(command));
+  return host;
+};
\ No newline at end of file